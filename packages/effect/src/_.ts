@@ -1,3 +1,4 @@
+export { FileSystem } from './filesystem/_.js'
 export { Path } from './path/_.js'
 export { Schema } from './schema/_.js'
 export { String } from './string/_.js'
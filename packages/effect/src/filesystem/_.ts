@@ -0,0 +1,22 @@
+/**
+ * `FileSystem` — effect's `FileSystem` module, extended (not shadowed) with
+ * operations that take typed `Path` values instead of raw strings.
+ *
+ * Re-exports all of `effect/FileSystem` (the `FileSystem` service, `Size`, …) and
+ * adds path-typed operations (`readString`, `writeString`, `copy`, `remove`,
+ * `readDirectory`, …) under the same namespace. They run against whichever
+ * `FileSystem` service implementation is provided.
+ * `layerMemory` provides one that lives entirely in memory, seeded from a nested
+ * `Tree` spec — for tests that shouldn't touch disk.
+ *
+ * @example
+ * ```ts
+ * import { FileSystem, Path } from '@kitz/effect'
+ *
+ * const file = Path.fromLiteral('/home/user/config.json')
+ * const text = FileSystem.readString(file)  // Effect<string, PlatformError, FileSystem.FileSystem>
+ * ```
+ *
+ * @module
+ */
+export * as FileSystem from './__.js'
@@ -0,0 +1,88 @@
+import { describe, expect, it } from '@kitz/vitest'
+import { Effect, Layer } from 'effect'
+import { Path } from '../path/_.js'
+import { FileSystem } from './_.js'
+
+const exists = (path: string) => FileSystem.FileSystem.use((fs) => fs.exists(path))
+
+it.layer(FileSystem.layerMemory({ 'srv/': { 'kept.txt': 'old' } }))('buildScoped', (it) => {
+  it.effect('removes the missing ancestors it created on teardown', () =>
+    Effect.gen(function* () {
+      const built = yield* Effect.scoped(
+        Effect.gen(function* () {
+          const built = yield* FileSystem.buildScoped(Path.fromLiteral('/srv/a/b/'), {
+            'src/': { 'index.ts': 'export {}\n' },
+          })
+          expect(yield* exists('/srv/a/b/src/index.ts')).toBe(true)
+          return built
+        }),
+      )
+      expect(built['src/']).toEqual(Path.fromLiteral('/srv/a/b/src/'))
+      expect(yield* exists('/srv/a/')).toBe(false)
+      expect(yield* exists('/srv/')).toBe(true)
+    }),
+  )
+
+  it.effect('leaves what already existed in place', () =>
+    Effect.gen(function* () {
+      yield* Effect.scoped(
+        FileSystem.buildScoped(Path.fromLiteral('/srv/'), {
+          'kept.txt': 'new',
+          'added/': { 'x.json': { a: 1 } },
+        }),
+      )
+      expect(yield* exists('/srv/added/')).toBe(false)
+      expect(yield* FileSystem.readString(Path.fromLiteral('/srv/kept.txt'))).toBe('new')
+    }),
+  )
+})
+
+describe('invalid trees', () => {
+  it.effect('build fails when a directory key has content', () =>
+    Effect.gen(function* () {
+      const exit = yield* Effect.exit(
+        FileSystem.build(Path.fromLiteral('/app/'), { 'src/': { 'lib/': 'x' } }),
+      )
+      expect(exit).toFailWithTag('InvalidTreeError')
+    }).pipe(Effect.provide(FileSystem.layerMemory())),
+  )
+
+  it.effect('layerMemory fails with the offending key', () =>
+    Effect.gen(function* () {
+      const exit = yield* Effect.exit(Layer.build(FileSystem.layerMemory({ 'src/': 1 })))
+      expect(exit).toFailWithTag('InvalidTreeError')
+      expect(String(exit)).toContain('Tree key "src/" is a directory but has content')
+    }),
+  )
+
+  it.effect.each(['../x.txt', '/etc/', 'a/../../x.txt', './x.txt', 'a//b.txt'])(
+    'build rejects the escaping key %s before writing anything',
+    (key) =>
+      Effect.gen(function* () {
+        const exit = yield* Effect.exit(
+          FileSystem.build(Path.fromLiteral('/srv/app/'), { 'kept.txt': 'x', [key]: 'x' }),
+        )
+        expect(exit).toFailWithTag('InvalidTreeError')
+        expect(String(exit)).toContain(`Tree key "${key}" must stay inside the tree`)
+        expect(yield* exists('/srv/app/')).toBe(false)
+      }).pipe(Effect.provide(FileSystem.layerMemory({ 'srv/': {} }))),
+  )
+})
+
+describe('build', () => {
+  it.effect('removes what it created when a later write fails', () =>
+    Effect.gen(function* () {
+      const exit = yield* Effect.exit(
+        FileSystem.build(Path.fromLiteral('/srv/'), {
+          'new/': { 'a.txt': 'a' },
+          'added.txt': 'b',
+          blocker: 'c',
+        }),
+      )
+      expect(exit).toFailWithTag('PlatformError')
+      expect(yield* exists('/srv/new/')).toBe(false)
+      expect(yield* exists('/srv/added.txt')).toBe(false)
+      expect(yield* exists('/srv/blocker/')).toBe(true)
+    }).pipe(Effect.provide(FileSystem.layerMemory({ 'srv/': { 'blocker/': {} } }))),
+  )
+})
@@ -0,0 +1,145 @@
+import { Effect, FileSystem, Schema as S, type Scope } from 'effect'
+import type { PlatformError } from 'effect/PlatformError'
+import type { InvalidTreeError } from './errors.js'
+import { AbsDir } from '../path/models/AbsDir.js'
+import { AbsFile } from '../path/models/AbsFile.js'
+import { flatten, type Paths, type Tree } from './tree.js'
+
+type Service = FileSystem.FileSystem
+
+const decodeDir = S.decodeSync(AbsDir)
+const decodeFile = S.decodeSync(AbsFile)
+
+/**
+ * What {@link build} returns: every key of the spec, spelled as its full relative
+ * path, mapped to the path it created.
+ *
+ * @example
+ * ```ts
+ * type _ = Built<{ 'src/': { 'index.ts': '' } }>
+ * // { readonly 'src/': AbsDir; readonly 'src/index.ts': AbsFile }
+ * ```
+ */
+export type Built<T extends Tree> = {
+  readonly [P in Paths<T>]: P extends `${string}/` ? AbsDir : AbsFile
+}
+
+/** `dir` and its ancestors, outermost first: `/a/b/` → `['/', '/a/', '/a/b/']`. */
+const lineage = (dir: AbsDir): string[] =>
+  Array.from({ length: dir.segments.length + 1 }, (_, index) =>
+    S.encodeSync(AbsDir)(AbsDir.make({ segments: dir.segments.slice(0, index) })),
+  )
+
+/** The directories a node needs, parents first: `'a/b/c.ts'` → `['a/', 'a/b/']`. */
+const ancestorsOf = (path: string): string[] => {
+  const names = path.split('/').slice(0, -1)
+  return names.map((_, index) => `${names.slice(0, index + 1).join('/')}/`)
+}
+
+/** Remove created paths, newest first, ignoring failures: teardown is best-effort. */
+const removeAll = (fs: Service, created: readonly string[]): Effect.Effect<void> =>
+  Effect.asVoid(
+    Effect.forEach(created.toReversed(), (path) =>
+      Effect.ignore(fs.remove(path, { recursive: true, force: true })),
+    ),
+  )
+
+/**
+ * Write the spec under `dir`, returning the built map and the absolute path of
+ * everything that didn't exist beforehand — `dir`'s missing ancestors included —
+ * in creation order. If a step fails, what was created so far is removed again.
+ */
+const materialize = <T extends Tree>(
+  dir: AbsDir,
+  spec: T,
+): Effect.Effect<
+  { built: Built<T>; created: string[] },
+  PlatformError | InvalidTreeError,
+  Service
+> =>
+  FileSystem.FileSystem.use((fs) => {
+    const created: string[] = []
+    return Effect.gen(function* () {
+      const base = S.encodeSync(AbsDir)(dir)
+      const nodes = yield* Effect.fromResult(flatten(spec))
+      const dirs = new Set(nodes.flatMap((node) => ancestorsOf(node.path)))
+
+      for (const path of [...lineage(dir), ...Array.from(dirs, (path) => `${base}${path}`)]) {
+        if (yield* fs.exists(path)) continue
+        yield* fs.makeDirectory(path, { recursive: true })
+        created.push(path)
+      }
+
+      const built: Record<string, AbsDir | AbsFile> = {}
+      for (const node of nodes) {
+        const path = `${base}${node.path}`
+        if (node._tag === 'dir') {
+          built[node.path] = decodeDir(path)
+          continue
+        }
+        const isNew = !(yield* fs.exists(path))
+        yield* typeof node.content === 'string'
+          ? fs.writeFileString(path, node.content)
+          : fs.writeFile(path, node.content)
+        if (isNew) created.push(path)
+        built[node.path] = decodeFile(path)
+      }
+
+      return { built: built as Built<T>, created }
+    }).pipe(Effect.onError(() => removeAll(fs, created)))
+  })
+
+/**
+ * Materialize a {@link Tree} spec under `dir` — creating `dir` and any missing
+ * directories, writing every file (JSON values serialized) — and return a typed
+ * map from each spec key to the `AbsDir`/`AbsFile` it produced. Existing files are
+ * overwritten. Keys must stay under `dir` — a leading `/` or a `..` segment fails
+ * with `InvalidTreeError` before anything is written, as does a directory key
+ * holding content. If a write fails midway, the paths created so far are removed;
+ * files already overwritten keep their new contents, so the build is not atomic.
+ * Use {@link buildScoped} for fixtures that clean up after themselves.
+ *
+ * @example
+ * ```ts
+ * const paths = yield* FileSystem.build(Path.fromLiteral('/tmp/app/'), {
+ *   'src/': { 'index.ts': 'export {}\n' },
+ *   'package.json': { name: 'app', type: 'module' },
+ * })
+ * paths['src/index.ts']  // AbsFile /tmp/app/src/index.ts
+ * paths['src/']          // AbsDir  /tmp/app/src/
+ * ```
+ */
+export const build = <const T extends Tree>(
+  dir: AbsDir,
+  spec: T,
+): Effect.Effect<Built<T>, PlatformError | InvalidTreeError, Service> =>
+  Effect.map(materialize(dir, spec), ({ built }) => built)
+
+/**
+ * {@link build}, torn down when the scope closes: everything the build created —
+ * missing ancestors of `dir` included — is removed, newest first. Files and
+ * directories that already existed are left in place (overwritten files keep
+ * their new contents).
+ *
+ * @example
+ * ```ts
+ * Effect.scoped(
+ *   Effect.gen(function* () {
+ *     const paths = yield* FileSystem.buildScoped(Path.fromLiteral('/tmp/fixture/'), {
+ *       'a.txt': 'hi',
+ *     })
+ *     // … exercise code against paths['a.txt'] …
+ *   }),
+ * )
+ * ```
+ */
+export const buildScoped = <const T extends Tree>(
+  dir: AbsDir,
+  spec: T,
+): Effect.Effect<Built<T>, PlatformError | InvalidTreeError, Service | Scope.Scope> =>
+  Effect.map(
+    Effect.acquireRelease(materialize(dir, spec), ({ created }) =>
+      FileSystem.FileSystem.use((fs) => removeAll(fs, created)),
+    ),
+    ({ built }) => built,
+  )
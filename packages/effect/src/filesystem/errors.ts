@@ -0,0 +1,19 @@
+import { Schema as S } from 'effect'
+
+/**
+ * A `Tree` spec can't be materialized: a directory key (one ending in `/`) holds
+ * file content instead of a nested tree (`{ 'src/': 'export {}' }`), or a key
+ * would reach outside the tree's root (`'../x'`, `'/etc/'`, `'a//b'`).
+ */
+export class InvalidTreeError extends S.TaggedErrorClass<InvalidTreeError>()('InvalidTreeError', {
+  /** The offending key, spelled as its full relative path. */
+  path: S.String,
+  /** What is wrong with it. */
+  reason: S.Literals(['content', 'escape']),
+}) {
+  override get message() {
+    return this.reason === 'content'
+      ? `Tree key "${this.path}" is a directory but has content`
+      : `Tree key "${this.path}" must stay inside the tree (no leading "/", no empty, "." or ".." segments)`
+  }
+}
@@ -0,0 +1,80 @@
+import { expect, it } from '@kitz/vitest'
+import { Effect, Schema, Stream } from 'effect'
+import { Path } from '../path/_.js'
+import { FileSystem } from './_.js'
+
+const root = Path.fromLiteral('/repo/')
+
+const glob = (pattern: string, options?: FileSystem.GlobOptions) =>
+  FileSystem.glob(root, Schema.decodeSync(Path.Glob.Schema)(pattern), options).pipe(
+    Stream.runCollect,
+    Effect.map((files) => Array.from(files, (file) => Schema.encodeSync(Path.AbsFile)(file))),
+  )
+
+it.layer(
+  FileSystem.layerMemory({
+    'repo/': {
+      '.gitignore': 'dist/\n*.log\nvendor/**\n!vendor/keep.ts\n',
+      '.git/': { HEAD: 'ref: refs/heads/main\n', 'hooks/': { 'pre-commit.ts': '' } },
+      'src/': {
+        'index.ts': '',
+        'util.ts': '',
+        'debug.log': '',
+        'nested/': { '.gitignore': '!important.log\n', 'deep.ts': '', 'important.log': '' },
+      },
+      'dist/': { 'index.js': '' },
+      'vendor/': { 'drop.ts': '', 'keep.ts': '' },
+      'README.md': '',
+    },
+  }),
+)('FileSystem.glob', (it) => {
+  it.effect('streams matches depth-first in path order, directories first', () =>
+    Effect.gen(function* () {
+      expect(yield* glob('src/**/*.ts')).toEqual([
+        '/repo/src/nested/deep.ts',
+        '/repo/src/index.ts',
+        '/repo/src/util.ts',
+      ])
+    }),
+  )
+
+  it.effect('matches absolute globs against absolute paths', () =>
+    Effect.gen(function* () {
+      expect(yield* glob('/repo/*.md')).toEqual(['/repo/README.md'])
+    }),
+  )
+
+  it.effect('walks everything without gitignore', () =>
+    Effect.gen(function* () {
+      const all = yield* glob('**', { dot: true })
+      expect(all).toContain('/repo/dist/index.js')
+      expect(all).toContain('/repo/.git/HEAD')
+    }),
+  )
+
+  it.effect('honors nested .gitignore files and skips .git/', () =>
+    Effect.gen(function* () {
+      expect(yield* glob('**', { dot: true, gitignore: true })).toEqual([
+        '/repo/src/nested/.gitignore',
+        '/repo/src/nested/deep.ts',
+        '/repo/src/nested/important.log',
+        '/repo/src/index.ts',
+        '/repo/src/util.ts',
+        '/repo/vendor/keep.ts',
+        '/repo/.gitignore',
+        '/repo/README.md',
+      ])
+    }),
+  )
+
+  it.effect('combines explicit rules with gitignore', () =>
+    Effect.gen(function* () {
+      const ignore = Path.Ignore.parseLenient('nested/')
+      expect(yield* glob('**/*.ts', { gitignore: true, ignore })).toEqual([
+        '/repo/src/index.ts',
+        '/repo/src/util.ts',
+        '/repo/vendor/keep.ts',
+      ])
+    }),
+  )
+})
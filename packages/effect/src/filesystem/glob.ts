@@ -0,0 +1,90 @@
+import { Effect, FileSystem, Schema as S, Stream } from 'effect'
+import type { PlatformError } from 'effect/PlatformError'
+import * as Glob from '../path/glob.js'
+import * as Ignore from '../path/ignore.js'
+import { AbsFile } from '../path/models/AbsFile.js'
+import type { AbsDir } from '../path/models/AbsDir.js'
+import { FileName } from '../path/models/FileName.js'
+import { Order } from '../path/order.js'
+import { relative } from '../path/relationship.js'
+import { exists, readDirectory, readString } from './operations.js'
+
+type Service = FileSystem.FileSystem
+
+const gitignore = S.decodeSync(FileName)('.gitignore')
+
+/** Options for {@link glob}. */
+export interface GlobOptions extends Glob.MatchOptions {
+  /** Rules (relative to the walk's root) for paths to skip — ignored directories aren't entered. */
+  readonly ignore?: Ignore.Ignore | undefined
+  /**
+   * Also honor every `.gitignore` met on the way down, each scoped to its own
+   * directory and taking precedence over those above it — and, as git does,
+   * skip `.git/` directories.
+   */
+  readonly gitignore?: boolean | undefined
+}
+
+/**
+ * Stream the files under `root` that match `glob`, depth-first in `Path.Order`.
+ * Relative globs match paths relative to `root`, absolute ones the files'
+ * absolute paths. Directories nothing inside could match — or that are ignored
+ * (see {@link GlobOptions}) — are not entered.
+ *
+ * @example
+ * ```ts
+ * const sources = FileSystem.glob(root, S.decodeSync(Path.Glob.Schema)('src/**\/*.ts'), { gitignore: true })
+ * // Stream<AbsFile, PlatformError, FileSystem>
+ * ```
+ */
+export const glob = (
+  root: AbsDir,
+  pattern: Glob.Glob,
+  options?: GlobOptions,
+): Stream.Stream<AbsFile, PlatformError, Service> => {
+  const against = <P extends AbsFile | AbsDir>(path: P) =>
+    pattern.absolute ? path : relative(root, path)
+
+  /** Whether to skip `entry` whatever the patterns say: a repository's `.git/` under `gitignore`. */
+  const skipped = (entry: AbsFile | AbsDir) =>
+    options?.gitignore === true && !S.is(AbsFile)(entry) && entry.segments.at(-1) === '.git'
+
+  /** The rules in force inside `dir`: the inherited ones plus its own `.gitignore`. */
+  const rulesIn = (dir: AbsDir, inherited: Ignore.Ignore) => {
+    if (!options?.gitignore) return Effect.succeed(inherited)
+    const file = AbsFile.make({ segments: dir.segments, fileName: gitignore })
+    return Effect.flatMap(exists(file), (found) =>
+      found
+        ? Effect.map(readString(file), (content) =>
+            Ignore.concat(inherited, Ignore.parseLenient(content, { base: relative(root, dir) })),
+          )
+        : Effect.succeed(inherited),
+    )
+  }
+
+  const walk = (
+    dir: AbsDir,
+    inherited: Ignore.Ignore,
+  ): Stream.Stream<AbsFile, PlatformError, Service> =>
+    Stream.unwrap(
+      Effect.gen(function* () {
+        const ignore = yield* rulesIn(dir, inherited)
+        const entries = yield* readDirectory(dir)
+        return Stream.fromIterable(entries.toSorted(Order)).pipe(
+          Stream.flatMap((entry) =>
+            skipped(entry) || Ignore.isIgnored(ignore, relative(root, entry))
+              ? Stream.empty
+              : S.is(AbsFile)(entry)
+                ? Glob.matches(pattern, against(entry), options)
+                  ? Stream.succeed(entry)
+                  : Stream.empty
+                : Glob.canMatchWithin(pattern, against(entry), options)
+                  ? walk(entry, ignore)
+                  : Stream.empty,
+          ),
+        )
+      }),
+    )
+
+  return walk(root, options?.ignore ?? Ignore.empty)
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from '@kitz/vitest'
+import { Effect, FileSystem as EffectFileSystem } from 'effect'
+import type { PlatformError } from 'effect/PlatformError'
+import { FileSystem } from './_.js'
+
+/** The `PlatformError` reason an operation fails with. */
+const reasonOf = <A>(
+  operation: (fs: EffectFileSystem.FileSystem) => Effect.Effect<A, PlatformError>,
+) =>
+  EffectFileSystem.FileSystem.use((fs) =>
+    Effect.map(Effect.flip(operation(fs)), (error) => error.reason),
+  )
+
+const failures: ReadonlyArray<
+  readonly [
+    string,
+    string,
+    (fs: EffectFileSystem.FileSystem) => Effect.Effect<unknown, PlatformError>,
+  ]
+> = [
+  ['reading a missing file', 'NotFound', (fs) => fs.readFile('/missing.txt')],
+  ['stat on a missing path', 'NotFound', (fs) => fs.stat('/nope/')],
+  ['mkdir under a missing parent', 'NotFound', (fs) => fs.makeDirectory('/a/b')],
+  ['removing a missing path', 'NotFound', (fs) => fs.remove('/missing.txt')],
+  ['mkdir over an existing directory', 'AlreadyExists', (fs) => fs.makeDirectory('/src')],
+  [
+    'an exclusive write to an existing file',
+    'AlreadyExists',
+    (fs) => fs.writeFileString('/README.md', 'x', { flag: 'wx' }),
+  ],
+  ['reading a directory', 'BadResource', (fs) => fs.readFile('/src')],
+  ['listing a file', 'BadResource', (fs) => fs.readDirectory('/README.md')],
+]
+
+it.layer(
+  FileSystem.layerMemory({ 'src/': { 'index.ts': 'export {}\n' }, 'README.md': '# demo\n' }),
+)('layerMemory failure reasons', (it) => {
+  it.effect.each(failures)('%s fails with %s', ([, tag, operation]) =>
+    Effect.gen(function* () {
+      expect((yield* reasonOf(operation))._tag).toBe(tag)
+    }),
+  )
+
+  it.effect('names the method and path that failed', () =>
+    Effect.gen(function* () {
+      const reason = yield* reasonOf((fs) => fs.readFile('/missing.txt'))
+      expect(reason).toMatchObject({
+        module: 'FileSystem',
+        method: 'readFile',
+        pathOrDescriptor: '/missing.txt',
+      })
+    }),
+  )
+})
+
+describe('layerMemory', () => {
+  it.effect('resolves relative paths against options.cwd', () =>
+    Effect.gen(function* () {
+      const fs = yield* EffectFileSystem.FileSystem
+      yield* fs.writeFileString('notes.txt', 'hi')
+      expect(yield* fs.readFileString('/work/notes.txt')).toBe('hi')
+    }).pipe(Effect.provide(FileSystem.layerMemory({ 'work/': {} }, { cwd: '/work' }))),
+  )
+
+  it.effect('gives each build its own store', () =>
+    Effect.gen(function* () {
+      const layer = FileSystem.layerMemory()
+      yield* EffectFileSystem.FileSystem.use((fs) => fs.writeFileString('/a.txt', 'a')).pipe(
+        Effect.provide(layer),
+      )
+      const exists = yield* EffectFileSystem.FileSystem.use((fs) => fs.exists('/a.txt')).pipe(
+        Effect.provide(layer),
+      )
+      expect(exists).toBe(false)
+    }),
+  )
+})
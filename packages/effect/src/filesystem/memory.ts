@@ -0,0 +1,443 @@
+import { create, type VirtualFileSystem, type VirtualStats } from '@platformatic/vfs'
+import { Effect, FileSystem, Layer, Option, Queue, Stream } from 'effect'
+import type { PlatformError, SystemErrorTag } from 'effect/PlatformError'
+import { systemError } from 'effect/PlatformError'
+import * as NodePath from 'node:path'
+import type { InvalidTreeError } from './errors.js'
+import { flatten, type Node, type Tree } from './tree.js'
+
+const { posix } = NodePath
+
+/** Options for the in-memory file system. */
+export interface MemoryOptions {
+  /** Directory relative paths resolve against (the in-memory stand-in for `process.cwd()`). Default `/`. */
+  readonly cwd?: string
+  /** Directory temp files and directories are created under. Default `/tmp`. */
+  readonly tmpDir?: string
+}
+
+/**
+ * errno code → `PlatformError` reason, the same table the Node platform layer
+ * uses, so code under test sees identical failure reasons in memory and on disk.
+ */
+const errnoReasons: Readonly<Record<string, SystemErrorTag>> = {
+  ENOENT: 'NotFound',
+  EACCES: 'PermissionDenied',
+  EEXIST: 'AlreadyExists',
+  EISDIR: 'BadResource',
+  ENOTDIR: 'BadResource',
+  EBUSY: 'Busy',
+  ELOOP: 'BadResource',
+}
+
+interface ErrnoError extends Error {
+  code?: string
+  syscall?: string
+}
+
+/** A Node-style errno error, for failures the memory store itself doesn't raise. */
+const errno = (code: string, syscall: string, path: string, description: string): ErrnoError =>
+  Object.assign(new Error(`${code}: ${description}, ${syscall} '${path}'`), { code, syscall })
+
+const toPlatformError =
+  (method: string, path: string) =>
+  (cause: unknown): PlatformError => {
+    const error = cause as ErrnoError
+    return systemError({
+      _tag: (error.code && errnoReasons[error.code]) || 'Unknown',
+      module: 'FileSystem',
+      method,
+      pathOrDescriptor: path,
+      syscall: error.syscall,
+      description: error.message,
+      cause,
+    })
+  }
+
+/** Open flags → access mode, the way `fs.open` reads them. */
+const openModes: Readonly<
+  Record<
+    FileSystem.OpenFlag,
+    {
+      read: boolean
+      write: boolean
+      create: boolean
+      truncate: boolean
+      append: boolean
+      exclusive: boolean
+    }
+  >
+> = {
+  r: { read: true, write: false, create: false, truncate: false, append: false, exclusive: false },
+  'r+': {
+    read: true,
+    write: true,
+    create: false,
+    truncate: false,
+    append: false,
+    exclusive: false,
+  },
+  w: { read: false, write: true, create: true, truncate: true, append: false, exclusive: false },
+  wx: { read: false, write: true, create: true, truncate: true, append: false, exclusive: true },
+  'w+': { read: true, write: true, create: true, truncate: true, append: false, exclusive: false },
+  'wx+': { read: true, write: true, create: true, truncate: true, append: false, exclusive: true },
+  a: { read: false, write: true, create: true, truncate: false, append: true, exclusive: false },
+  ax: { read: false, write: true, create: true, truncate: false, append: true, exclusive: true },
+  'a+': { read: true, write: true, create: true, truncate: false, append: true, exclusive: false },
+  'ax+': { read: true, write: true, create: true, truncate: false, append: true, exclusive: true },
+}
+
+const toInfo = (stats: VirtualStats): FileSystem.File.Info => ({
+  type: stats.isFile()
+    ? 'File'
+    : stats.isDirectory()
+      ? 'Directory'
+      : stats.isSymbolicLink()
+        ? 'SymbolicLink'
+        : 'Unknown',
+  mtime: Option.some(stats.mtime),
+  atime: Option.some(stats.atime),
+  birthtime: Option.some(stats.birthtime),
+  dev: stats.dev,
+  ino: Option.some(stats.ino),
+  mode: stats.mode,
+  nlink: Option.some(stats.nlink),
+  uid: Option.some(stats.uid),
+  gid: Option.some(stats.gid),
+  rdev: Option.some(stats.rdev),
+  size: FileSystem.Size(stats.size),
+  blksize: Option.some(FileSystem.Size(stats.blksize)),
+  blocks: Option.some(stats.blocks),
+})
+
+/** `bytes` resized to `length`, zero-filled when growing. */
+const resize = (bytes: Uint8Array, length: number): Uint8Array => {
+  const resized = new Uint8Array(length)
+  resized.set(bytes.subarray(0, length))
+  return resized
+}
+
+/** Build a `FileSystem` over a fresh in-memory store, seeded with flattened tree nodes. */
+const fromNodes = (
+  nodes: readonly Node[],
+  options?: MemoryOptions,
+): Effect.Effect<FileSystem.FileSystem> =>
+  Effect.sync(() => {
+    const vfs: VirtualFileSystem = create({ moduleHooks: false })
+    const cwd = options?.cwd ?? '/'
+    const tmpDir = options?.tmpDir ?? '/tmp'
+    let nextFd = 3
+    let nextTemp = 0
+
+    const resolve = (path: string): string => posix.resolve(cwd, path)
+
+    for (const node of nodes) {
+      const path = resolve(node.path)
+      if (node._tag === 'dir') vfs.mkdirSync(path, { recursive: true })
+      else {
+        vfs.mkdirSync(posix.dirname(path), { recursive: true })
+        vfs.writeFileSync(path, Buffer.from(node.content))
+      }
+    }
+
+    /** Run a synchronous store operation, mapping thrown errno errors to `PlatformError`. */
+    const attempt = <A>(
+      method: string,
+      path: string,
+      f: (resolved: string) => A,
+    ): Effect.Effect<A, PlatformError> =>
+      Effect.try({ try: () => f(resolve(path)), catch: toPlatformError(method, path) })
+
+    /** The store creates missing parents on write; the real platform fails, so check first. */
+    const requireParent = (syscall: string, path: string): void => {
+      if (!vfs.existsSync(posix.dirname(path))) {
+        throw errno('ENOENT', syscall, path, 'no such file or directory')
+      }
+    }
+
+    const readBytes = (path: string): Uint8Array => new Uint8Array(vfs.readFileSync(path))
+
+    const writeBytes = (path: string, bytes: Uint8Array): void =>
+      vfs.writeFileSync(path, Buffer.from(bytes))
+
+    const copyTree = (from: string, to: string, overwrite: boolean): void => {
+      if (vfs.statSync(from).isDirectory()) {
+        if (!vfs.existsSync(to)) vfs.mkdirSync(to, { recursive: true })
+        for (const name of vfs.readdirSync(from)) {
+          copyTree(posix.join(from, name), posix.join(to, name), overwrite)
+        }
+      } else if (overwrite || !vfs.existsSync(to)) {
+        vfs.copyFileSync(from, to)
+      }
+    }
+
+    const removeTree = (path: string): void => {
+      if (vfs.lstatSync(path).isDirectory()) {
+        for (const name of vfs.readdirSync(path)) removeTree(posix.join(path, name))
+        vfs.rmdirSync(path)
+      } else {
+        vfs.unlinkSync(path)
+      }
+    }
+
+    const listTree = (path: string, prefix: string): string[] =>
+      vfs.readdirSync(path).flatMap((name) => {
+        const entry = `${prefix}${name}`
+        const child = posix.join(path, name)
+        return vfs.statSync(child).isDirectory()
+          ? [entry, ...listTree(child, `${entry}/`)]
+          : [entry]
+      })
+
+    const makeTempDirectory = (
+      method: string,
+      tempOptions?: {
+        readonly directory?: string | undefined
+        readonly prefix?: string | undefined
+      },
+    ) =>
+      attempt(method, tempOptions?.directory ?? tmpDir, (directory) => {
+        let path: string
+        do path = posix.join(directory, `${tempOptions?.prefix ?? ''}${nextTemp++}`)
+        while (vfs.existsSync(path))
+        vfs.mkdirSync(path, { recursive: true })
+        return path
+      })
+
+    const makeTempFile = (
+      method: string,
+      tempOptions?: {
+        readonly directory?: string | undefined
+        readonly prefix?: string | undefined
+        readonly suffix?: string | undefined
+      },
+    ) =>
+      Effect.flatMap(
+        makeTempDirectory(method, { directory: tempOptions?.directory }),
+        (directory) =>
+          attempt(method, directory, () => {
+            const path = posix.join(
+              directory,
+              `${tempOptions?.prefix ?? ''}file${tempOptions?.suffix ?? ''}`,
+            )
+            vfs.writeFileSync(path, '')
+            return path
+          }),
+      )
+
+    /** Release a scoped temp resource by removing its directory, ignoring failures. */
+    const removeQuietly = (path: string) =>
+      Effect.ignore(attempt('remove', path, (resolved) => removeTree(resolved)))
+
+    /** Check the path exists; used by metadata ops the store has no state for. */
+    const touch = (method: string, path: string) =>
+      attempt(method, path, (resolved) => void vfs.statSync(resolved))
+
+    const open = (
+      path: string,
+      openOptions?: { readonly flag?: FileSystem.OpenFlag | undefined },
+    ): Effect.Effect<FileSystem.File, PlatformError> =>
+      attempt('open', path, (resolved) => {
+        const mode = openModes[openOptions?.flag ?? 'r']
+        const exists = vfs.existsSync(resolved)
+        if (exists && mode.exclusive) throw errno('EEXIST', 'open', path, 'file already exists')
+        if (!exists && !mode.create)
+          throw errno('ENOENT', 'open', path, 'no such file or directory')
+        if (exists && vfs.statSync(resolved).isDirectory()) {
+          throw errno('EISDIR', 'open', path, 'illegal operation on a directory')
+        }
+        if (!exists) requireParent('open', resolved)
+        if (!exists || mode.truncate) vfs.writeFileSync(resolved, '')
+
+        const fd = FileSystem.FileDescriptor(nextFd++)
+        let position = 0
+
+        const guard = (allowed: boolean, method: string) => {
+          if (!allowed) throw errno('EBADF', method, path, 'bad file descriptor')
+        }
+
+        const read = (buffer: Uint8Array): number => {
+          guard(mode.read, 'read')
+          const bytes = readBytes(resolved).subarray(position, position + buffer.length)
+          buffer.set(bytes)
+          position += bytes.length
+          return bytes.length
+        }
+
+        const write = (buffer: Uint8Array): number => {
+          guard(mode.write, 'write')
+          const current = readBytes(resolved)
+          if (mode.append) position = current.length
+          const next = resize(current, Math.max(current.length, position + buffer.length))
+          next.set(buffer, position)
+          writeBytes(resolved, next)
+          position += buffer.length
+          return buffer.length
+        }
+
+        const file: FileSystem.File = {
+          [FileSystem.FileTypeId]: FileSystem.FileTypeId,
+          fd,
+          stat: attempt('stat', path, (p) => toInfo(vfs.statSync(p))),
+          seek: (offset, from) =>
+            Effect.sync(() => {
+              position = from === 'start' ? Number(offset) : position + Number(offset)
+            }),
+          sync: Effect.void,
+          read: (buffer) => attempt('read', path, () => FileSystem.Size(read(buffer))),
+          readAlloc: (size) =>
+            attempt('read', path, () => {
+              const buffer = new Uint8Array(Number(size))
+              const count = read(buffer)
+              return count === 0 ? Option.none() : Option.some(buffer.subarray(0, count))
+            }),
+          truncate: (length) =>
+            attempt('truncate', path, () => {
+              guard(mode.write, 'truncate')
+              writeBytes(resolved, resize(readBytes(resolved), Number(length ?? 0)))
+            }),
+          write: (buffer) => attempt('write', path, () => FileSystem.Size(write(buffer))),
+          writeAll: (buffer) => attempt('write', path, () => void write(buffer)),
+        }
+        return file
+      })
+
+    return FileSystem.make({
+      access: (path) => attempt('access', path, (resolved) => vfs.accessSync(resolved)),
+      copy: (fromPath, toPath, copyOptions) =>
+        attempt('copy', fromPath, (from) => {
+          const to = resolve(toPath)
+          vfs.mkdirSync(posix.dirname(to), { recursive: true })
+          copyTree(from, to, copyOptions?.overwrite ?? false)
+        }),
+      copyFile: (fromPath, toPath) =>
+        attempt('copyFile', fromPath, (from) => {
+          const to = resolve(toPath)
+          requireParent('copyfile', to)
+          vfs.copyFileSync(from, to)
+        }),
+      // The store keeps no ownership, permission bits or settable timestamps.
+      chmod: (path) => touch('chmod', path),
+      chown: (path) => touch('chown', path),
+      utimes: (path) => touch('utimes', path),
+      link: (fromPath) =>
+        attempt('link', fromPath, () => {
+          throw errno('ENOTSUP', 'link', fromPath, 'hard links are not supported in memory')
+        }),
+      makeDirectory: (path, dirOptions) =>
+        attempt('makeDirectory', path, (resolved) => {
+          if (!dirOptions?.recursive) requireParent('mkdir', resolved)
+          vfs.mkdirSync(resolved, { recursive: dirOptions?.recursive ?? false })
+        }),
+      makeTempDirectory: (tempOptions) => makeTempDirectory('makeTempDirectory', tempOptions),
+      makeTempDirectoryScoped: (tempOptions) =>
+        Effect.acquireRelease(
+          makeTempDirectory('makeTempDirectoryScoped', tempOptions),
+          removeQuietly,
+        ),
+      makeTempFile: (tempOptions) => makeTempFile('makeTempFile', tempOptions),
+      makeTempFileScoped: (tempOptions) =>
+        Effect.acquireRelease(makeTempFile('makeTempFileScoped', tempOptions), (path) =>
+          removeQuietly(posix.dirname(path)),
+        ),
+      open: (path, openOptions) =>
+        Effect.acquireRelease(open(path, openOptions), () => Effect.void),
+      readDirectory: (path, readOptions) =>
+        attempt('readDirectory', path, (resolved) =>
+          readOptions?.recursive ? listTree(resolved, '') : vfs.readdirSync(resolved),
+        ),
+      readFile: (path) => attempt('readFile', path, readBytes),
+      readLink: (path) => attempt('readLink', path, (resolved) => vfs.readlinkSync(resolved)),
+      realPath: (path) => attempt('realPath', path, (resolved) => vfs.realpathSync(resolved)),
+      remove: (path, removeOptions) =>
+        attempt('remove', path, (resolved) => {
+          if (!vfs.existsSync(resolved)) {
+            if (removeOptions?.force) return
+            throw errno('ENOENT', 'rm', path, 'no such file or directory')
+          }
+          if (vfs.lstatSync(resolved).isDirectory() && !removeOptions?.recursive) {
+            throw errno('ERR_FS_EISDIR', 'rm', path, 'path is a directory')
+          }
+          removeTree(resolved)
+        }),
+      rename: (oldPath, newPath) =>
+        attempt('rename', oldPath, (from) => {
+          const to = resolve(newPath)
+          requireParent('rename', to)
+          vfs.renameSync(from, to)
+        }),
+      stat: (path) => attempt('stat', path, (resolved) => toInfo(vfs.statSync(resolved))),
+      symlink: (fromPath, toPath) =>
+        attempt('symlink', toPath, (to) => vfs.symlinkSync(resolve(fromPath), to)),
+      truncate: (path, length) =>
+        attempt('truncate', path, (resolved) =>
+          writeBytes(resolved, resize(readBytes(resolved), Number(length ?? 0))),
+        ),
+      watch: (path) =>
+        Stream.callback<FileSystem.WatchEvent, PlatformError>((queue) =>
+          Effect.acquireRelease(
+            attempt('watch', path, (resolved) =>
+              vfs.watch(resolved, { recursive: true }, (eventType, fileName) => {
+                const changed = posix.join(resolved, fileName)
+                Queue.offerUnsafe(
+                  queue,
+                  eventType === 'change'
+                    ? { _tag: 'Update', path: changed }
+                    : vfs.existsSync(changed)
+                      ? { _tag: 'Create', path: changed }
+                      : { _tag: 'Remove', path: changed },
+                )
+              }),
+            ),
+            (watcher) => Effect.sync(() => watcher.close()),
+          ),
+        ),
+      writeFile: (path, data, writeOptions) =>
+        attempt('writeFile', path, (resolved) => {
+          const mode = openModes[writeOptions?.flag ?? 'w']
+          const exists = vfs.existsSync(resolved)
+          if (exists && mode.exclusive) throw errno('EEXIST', 'open', path, 'file already exists')
+          if (!exists && !mode.create)
+            throw errno('ENOENT', 'open', path, 'no such file or directory')
+          if (!exists) requireParent('open', resolved)
+          if (mode.append) vfs.appendFileSync(resolved, Buffer.from(data))
+          else writeBytes(resolved, data)
+        }),
+    })
+  })
+
+/**
+ * Build a `FileSystem` over a fresh in-memory store, seeded with `tree`; an
+ * invalid spec fails with `InvalidTreeError`. See {@link layerMemory}.
+ */
+export const makeMemory = (
+  tree: Tree = {},
+  options?: MemoryOptions,
+): Effect.Effect<FileSystem.FileSystem, InvalidTreeError> =>
+  Effect.flatMap(Effect.fromResult(flatten(tree)), (nodes) => fromNodes(nodes, options))
+
+/**
+ * A `FileSystem` layer backed entirely by memory — filesystem code runs in tests
+ * without touching disk. Seed it with a nested {@link Tree} spec; relative paths
+ * resolve against `options.cwd` (default `/`). Failures carry the same
+ * `PlatformError` reasons (`NotFound`, `AlreadyExists`, `BadResource`, …) as the
+ * Node platform layer.
+ *
+ * Each layer build gets its own isolated store.
+ *
+ * @example
+ * ```ts
+ * const TestFs = FileSystem.layerMemory({
+ *   'src/': { 'index.ts': 'export {}\n' },
+ *   'package.json': '{ "name": "demo" }',
+ * })
+ *
+ * const program = FileSystem.readString(Path.fromLiteral('/src/index.ts'))
+ * Effect.runPromise(Effect.provide(program, TestFs))  // 'export {}\n'
+ * ```
+ */
+export const layerMemory = (
+  tree?: Tree,
+  options?: MemoryOptions,
+): Layer.Layer<FileSystem.FileSystem, InvalidTreeError> =>
+  Layer.effect(FileSystem.FileSystem, makeMemory(tree, options))
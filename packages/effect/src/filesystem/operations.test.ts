@@ -0,0 +1,85 @@
+import { describe, expect, it } from '@kitz/vitest'
+import { Effect } from 'effect'
+import { Path } from '../path/_.js'
+import { FileSystem } from './_.js'
+
+// Seeded under the cwd, so `/srv/app/` and `./app/` name the same directory.
+const tree = { 'app/': { 'README.md': '# app\n', 'src/': { 'index.ts': 'export {}\n' } } }
+
+it.layer(FileSystem.layerMemory(tree, { cwd: '/srv/' }))('operations', (it) => {
+  describe('readString / writeString', () => {
+    it.effect('reads what was written', () =>
+      Effect.gen(function* () {
+        const file = Path.fromLiteral('/srv/notes.txt')
+        yield* FileSystem.writeString(file, 'héllo')
+        expect(yield* FileSystem.readString(file)).toBe('héllo')
+        yield* FileSystem.writeString(file, 'replaced')
+        expect(yield* FileSystem.readString(file)).toBe('replaced')
+      }),
+    )
+
+    it.effect('passes write options through', () =>
+      Effect.gen(function* () {
+        const file = Path.fromLiteral('/srv/app/README.md')
+        const error = yield* Effect.flip(FileSystem.writeString(file, 'x', { flag: 'wx' }))
+        expect(error.reason._tag).toBe('AlreadyExists')
+      }),
+    )
+
+    it.effect('resolves relative paths against the cwd', () =>
+      Effect.gen(function* () {
+        expect(yield* FileSystem.readString(Path.fromLiteral('./app/README.md'))).toBe('# app\n')
+      }),
+    )
+
+    it.effect('fails reading a missing file with NotFound', () =>
+      Effect.gen(function* () {
+        const error = yield* Effect.flip(FileSystem.readString(Path.fromLiteral('/srv/none.txt')))
+        expect(error.reason._tag).toBe('NotFound')
+      }),
+    )
+  })
+
+  describe('makeDirectory', () => {
+    it.effect('creates missing parents only when recursive', () =>
+      Effect.gen(function* () {
+        const dir = Path.fromLiteral('/srv/a/b/')
+        const error = yield* Effect.flip(FileSystem.makeDirectory(dir))
+        expect(error.reason._tag).toBe('NotFound')
+        yield* FileSystem.makeDirectory(dir, { recursive: true })
+        expect(yield* FileSystem.exists(dir)).toBe(true)
+      }),
+    )
+  })
+
+  describe('readDirectory', () => {
+    it.effect('tells files from directories by stat', () =>
+      Effect.gen(function* () {
+        const entries = yield* FileSystem.readDirectory(Path.fromLiteral('/srv/app/'))
+        expect(entries).toHaveLength(2)
+        expect(entries).toEqual(
+          expect.arrayContaining([
+            Path.fromLiteral('/srv/app/README.md'),
+            Path.fromLiteral('/srv/app/src/'),
+          ]),
+        )
+      }),
+    )
+
+    it.effect('decodes nested entries of a recursive listing', () =>
+      Effect.gen(function* () {
+        const entries = yield* FileSystem.readDirectory(Path.fromLiteral('/srv/app/'), {
+          recursive: true,
+        })
+        expect(entries).toContainEqual(Path.fromLiteral('/srv/app/src/index.ts'))
+      }),
+    )
+
+    it.effect('anchors the entries of a relative directory relatively', () =>
+      Effect.gen(function* () {
+        const entries = yield* FileSystem.readDirectory(Path.fromLiteral('./app/src/'))
+        expect(entries).toEqual([Path.fromLiteral('./app/src/index.ts')])
+      }),
+    )
+  })
+})
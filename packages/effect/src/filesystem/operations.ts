@@ -0,0 +1,131 @@
+import { Effect, FileSystem, Schema as S } from 'effect'
+import type { PlatformError } from 'effect/PlatformError'
+import { AbsDir } from '../path/models/AbsDir.js'
+import { AbsFile } from '../path/models/AbsFile.js'
+import type { Dir } from '../path/models/Dir.js'
+import type { File } from '../path/models/File.js'
+import { FileName } from '../path/models/FileName.js'
+import { Path as PathSchema } from '../path/models/Path.js'
+import { RelDir } from '../path/models/RelDir.js'
+import { RelFile } from '../path/models/RelFile.js'
+
+type Path = typeof PathSchema.Type
+type Service = FileSystem.FileSystem
+
+const encode = S.encodeSync(PathSchema)
+
+/** A directory listing entry: a file or directory anchored like the listed directory. */
+export type Entry<D extends Dir> = D extends AbsDir ? AbsFile | AbsDir : RelFile | RelDir
+
+/** The `from` → `to` pairing {@link copy} accepts: files copy onto files, directories onto directories. */
+export type CopyTarget<From extends File | Dir> = From extends File ? File : Dir
+
+/**
+ * Decode one raw listing entry (a name, or a `/`-separated nested path for
+ * recursive listings) into a path value under `dir`.
+ */
+const entryOf = <D extends Dir>(dir: D, entry: string, isFile: boolean): Entry<D> => {
+  const names = entry.split('/')
+  const segments = [...dir.segments, ...(isFile ? names.slice(0, -1) : names)]
+  const fileName = isFile ? S.decodeSync(FileName)(names.at(-1)!) : null
+
+  if (S.is(AbsDir)(dir)) {
+    return (fileName ? AbsFile.make({ segments, fileName }) : AbsDir.make({ segments })) as Entry<D>
+  }
+  const back = S.is(RelDir)(dir) ? dir.back : 0
+  return (
+    fileName ? RelFile.make({ back, segments, fileName }) : RelDir.make({ back, segments })
+  ) as Entry<D>
+}
+
+/**
+ * Read a file as a string.
+ *
+ * @example
+ * ```ts
+ * const text = yield* FileSystem.readString(Path.fromLiteral('/etc/hosts'))
+ * ```
+ */
+export const readString = (
+  file: File,
+  encoding?: string,
+): Effect.Effect<string, PlatformError, Service> =>
+  FileSystem.FileSystem.use((fs) => fs.readFileString(encode(file), encoding))
+
+/** Read a file as bytes. */
+export const readBytes = (file: File): Effect.Effect<Uint8Array, PlatformError, Service> =>
+  FileSystem.FileSystem.use((fs) => fs.readFile(encode(file)))
+
+/** Write a string to a file, replacing its contents. */
+export const writeString = (
+  file: File,
+  data: string,
+  options?: Parameters<Service['writeFileString']>[2],
+): Effect.Effect<void, PlatformError, Service> =>
+  FileSystem.FileSystem.use((fs) => fs.writeFileString(encode(file), data, options))
+
+/** Write bytes to a file, replacing its contents. */
+export const writeBytes = (
+  file: File,
+  data: Uint8Array,
+  options?: Parameters<Service['writeFile']>[2],
+): Effect.Effect<void, PlatformError, Service> =>
+  FileSystem.FileSystem.use((fs) => fs.writeFile(encode(file), data, options))
+
+/** Whether anything exists at the path. */
+export const exists = (path: Path): Effect.Effect<boolean, PlatformError, Service> =>
+  FileSystem.FileSystem.use((fs) => fs.exists(encode(path)))
+
+/**
+ * Copy a file onto a file, or a directory (recursively) onto a directory.
+ *
+ * @example
+ * ```ts
+ * yield* FileSystem.copy(Path.fromLiteral('./a.txt'), Path.fromLiteral('./b.txt'))
+ * ```
+ */
+export const copy = <From extends File | Dir>(
+  from: From,
+  to: CopyTarget<From>,
+  options?: Parameters<Service['copy']>[2],
+): Effect.Effect<void, PlatformError, Service> =>
+  FileSystem.FileSystem.use((fs) => fs.copy(encode(from), encode(to), options))
+
+/** Remove a file or directory. Non-empty directories need `recursive: true`. */
+export const remove = (
+  path: Path,
+  options?: Parameters<Service['remove']>[1],
+): Effect.Effect<void, PlatformError, Service> =>
+  FileSystem.FileSystem.use((fs) => fs.remove(encode(path), options))
+
+/** Create a directory; `recursive: true` creates missing parents too. */
+export const makeDirectory = (
+  dir: Dir,
+  options?: Parameters<Service['makeDirectory']>[1],
+): Effect.Effect<void, PlatformError, Service> =>
+  FileSystem.FileSystem.use((fs) => fs.makeDirectory(encode(dir), options))
+
+/**
+ * List a directory as decoded path values — each entry is stat'ed to tell files
+ * from directories, and anchored like `dir` (absolute in, absolute out).
+ *
+ * @example
+ * ```ts
+ * const entries = yield* FileSystem.readDirectory(Path.fromLiteral('/srv/app/'))
+ * // (AbsFile | AbsDir)[]
+ * ```
+ */
+export const readDirectory = <D extends Dir>(
+  dir: D,
+  options?: Parameters<Service['readDirectory']>[1],
+): Effect.Effect<Array<Entry<D>>, PlatformError, Service> =>
+  FileSystem.FileSystem.use((fs) => {
+    const base = encode(dir)
+    return Effect.flatMap(fs.readDirectory(base, options), (entries) =>
+      Effect.forEach(entries, (entry) =>
+        Effect.map(fs.stat(`${base}${entry}`), (info) =>
+          entryOf(dir, entry, info.type !== 'Directory'),
+        ),
+      ),
+    )
+  })
@@ -0,0 +1,106 @@
+import { Result } from 'effect'
+import { InvalidTreeError } from './errors.js'
+
+/** A JSON value. */
+export type Json =
+  | null
+  | boolean
+  | number
+  | string
+  | readonly Json[]
+  | { readonly [key: string]: Json }
+
+/**
+ * File contents in a {@link Tree} spec. Strings and bytes are written as-is; any
+ * other JSON value is serialized (two-space indent, trailing newline).
+ */
+export type Content = string | Uint8Array | Json
+
+/**
+ * A directory tree described as data. Keys ending in `/` are directories whose
+ * value is a nested `Tree`; every other key is a file whose value is its content.
+ * A key may span several segments (`'src/lib/'`, `'docs/index.md'`).
+ *
+ * @example
+ * ```ts
+ * const tree: Tree = {
+ *   'src/': { 'index.ts': 'export {}\n' },
+ *   'package.json': { name: 'demo' },
+ *   'README.md': '# hi\n',
+ * }
+ * ```
+ */
+export interface Tree {
+  readonly [key: string]: Content | Tree
+}
+
+/**
+ * One node of a flattened {@link Tree}: its `/`-joined path relative to the tree's
+ * root, and for files the serialized content.
+ */
+export type Node =
+  | { readonly _tag: 'dir'; readonly path: string }
+  | { readonly _tag: 'file'; readonly path: string; readonly content: string | Uint8Array }
+
+/**
+ * The relative path of every node in a tree spec, as a union of string literals —
+ * directory paths keep their trailing `/`.
+ *
+ * @example
+ * ```ts
+ * type _ = Paths<{ 'src/': { 'a.ts': '' }; 'b.json': {} }>  // 'src/' | 'src/a.ts' | 'b.json'
+ * ```
+ */
+export type Paths<T, Prefix extends string = ''> = {
+  [K in keyof T & string]: K extends `${string}/`
+    ? `${Prefix}${K}` | Paths<T[K], `${Prefix}${K}`>
+    : `${Prefix}${K}`
+}[keyof T & string]
+
+const isTree = (value: Content | Tree): value is Tree =>
+  typeof value === 'object' &&
+  value !== null &&
+  !Array.isArray(value) &&
+  !(value instanceof Uint8Array)
+
+/** Whether a key stays inside its tree: relative, with no empty, `.` or `..` segment. */
+const isContained = (key: string): boolean =>
+  key
+    .replace(/\/$/, '')
+    .split('/')
+    .every((name) => name !== '' && name !== '.' && name !== '..')
+
+/** Serialize file content: strings and bytes pass through, JSON values are stringified. */
+const serialize = (content: Content): string | Uint8Array =>
+  typeof content === 'string' || content instanceof Uint8Array
+    ? content
+    : `${JSON.stringify(content, null, 2)}\n`
+
+/**
+ * Flatten a tree spec into its nodes, parents before children. Directory paths
+ * keep their trailing `/`; file contents come out serialized. A directory key
+ * holding content, or a key reaching outside the tree (`'../x'`, `'/etc/'`),
+ * fails with {@link InvalidTreeError}.
+ *
+ * @example
+ * ```ts
+ * flatten({ 'src/': { 'a.ts': 'x' } })
+ * // Success([{ _tag: 'dir', path: 'src/' }, { _tag: 'file', path: 'src/a.ts', content: 'x' }])
+ * ```
+ */
+export const flatten = (tree: Tree, prefix = ''): Result.Result<Node[], InvalidTreeError> => {
+  const nodes: Node[] = []
+  for (const [key, value] of Object.entries(tree)) {
+    const path = `${prefix}${key}`
+    if (!isContained(key)) return Result.fail(new InvalidTreeError({ path, reason: 'escape' }))
+    if (!key.endsWith('/')) {
+      nodes.push({ _tag: 'file', path, content: serialize(value as Content) })
+      continue
+    }
+    if (!isTree(value)) return Result.fail(new InvalidTreeError({ path, reason: 'content' }))
+    const children = flatten(value, path)
+    if (Result.isFailure(children)) return children
+    nodes.push({ _tag: 'dir', path }, ...children.success)
+  }
+  return Result.succeed(nodes)
+}
@@ -19,11 +19,60 @@ export { Path as Schema } from './models/Path.js'
 // Constants
 export * from './constants.js'
 
+// Compile-time literal parsing
+export * from './literal.js'
+
+// Errors
+export * from './errors.js'
+
+// Join / resolve algebra
+export * from './join.js'
+
+// Relationship queries
+export * from './relationship.js'
+
+// Navigation — parent/up/child/sibling and file-name rewrites
+export * from './navigation.js'
+
+// Working-directory service and relative ⇄ absolute conversion against it
+export * from './cwd.js'
+
+// Ordering, equivalence and hashing
+export * from './order.js'
+
+// Path-keyed collections on Effect's HashSet / HashMap
+export * as PathSet from './pathSet.js'
+export * as PathMap from './pathMap.js'
+
+// Directory trie of absolute paths, with fold/map and a `tree`-style renderer
+export * as PathTree from './pathTree.js'
+
+// fast-check arbitraries for every variant, plus the codec round-trip laws
+export * as Arbitrary from './arbitrary.js'
+
+// Portability profiles (POSIX portable, Windows-safe, length limits, case collisions)
+export * as Portability from './portability.js'
+
+// `~`, `$VAR` and `${VAR}` templates resolved through Effect Config
+export * as Expandable from './expandable.js'
+
+// Path patterns with typed named captures (`content/:locale/:slug.md`)
+export * as Pattern from './pattern.js'
+
+// Glob patterns — parsed AST, codec and matcher (`FileSystem.glob` streams matches)
+export * as Glob from './glob.js'
+
+// gitignore rules and `isIgnored` (honored by `FileSystem.glob`)
+export * as Ignore from './ignore.js'
+
 // States
 export * as States from './states.js'
 
 // Analyzer — public parse/validate/format of path strings (surfaces as `Path.Analyzer`)
 export * as Analyzer from './analyzer.js'
 
-// Extension types and constants
+// Win32 flavour of the codecs (drive letters, UNC shares, backslashes)
+export * as Win32 from './win32/__.js'
+
+// Extension schema and registry (compound extensions, MIME types, language IDs)
 export * as Extension from './models/Extension.js'
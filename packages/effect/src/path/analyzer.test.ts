@@ -0,0 +1,82 @@
+import { describe, expect, it } from '@kitz/vitest'
+import { Result, type SchemaIssue } from 'effect'
+import { Path } from './_.js'
+
+/** The offset and segment a rejected input's issue points at. */
+const locationOf = (analyzed: Result.Result<unknown, SchemaIssue.Issue>) => {
+  if (Result.isSuccess(analyzed)) throw new Error('Expected the analyzer to reject the input')
+  const issue = analyzed.failure as SchemaIssue.InvalidValue
+  return { offset: issue.annotations?.['offset'], segment: issue.annotations?.['segment'] }
+}
+
+describe('analyzeWithReport', () => {
+  it('lists every normalization with its offset, in input order', () => {
+    expect(Path.Analyzer.analyzeWithReport('/a//b/./c/../d.ts').normalizations).toEqual([
+      { _tag: 'EmptySegment', offset: 3, segment: '' },
+      { _tag: 'HereSegment', offset: 6, segment: '.' },
+      { _tag: 'ParentFolded', offset: 10, segment: '..' },
+    ])
+  })
+
+  it('reports climbing above the root', () => {
+    expect(Path.Analyzer.analyzeWithReport('/../a/').normalizations).toEqual([
+      { _tag: 'AboveRoot', offset: 1, segment: '..' },
+    ])
+  })
+
+  it.each(['/', '/a/b.ts', './src/', '../../a/', 'a/b/', '../a.ts'])(
+    'treats canonical %s as needing no repair',
+    (input) => {
+      expect(Path.Analyzer.analyzeWithReport(input).normalizations).toEqual([])
+    },
+  )
+})
+
+describe('analyzeStrict', () => {
+  it.each([
+    ['src//a.ts', 4, ''],
+    ['./a/./b/', 4, '.'],
+    ['./a/../b.ts', 4, '..'],
+    ['/../etc/', 1, '..'],
+    ['./../a.ts', 0, '.'],
+  ])('rejects %s at offset %i', (input, offset, segment) => {
+    const analyzed = Path.Analyzer.analyzeStrict(input)
+    expect(locationOf(analyzed)).toEqual({ offset, segment })
+    expect(String(Result.isFailure(analyzed) && analyzed.failure)).toContain(`at offset ${offset}`)
+  })
+
+  it('points at the first repair only', () => {
+    expect(locationOf(Path.Analyzer.analyzeStrict('/a/./b//c.ts'))).toEqual({
+      offset: 3,
+      segment: '.',
+    })
+  })
+})
+
+describe('kind and anchoring issues', () => {
+  it('points a directory given for a file at the trailing slash', () => {
+    expect(locationOf(Path.Analyzer.analyzeFile('absolute')('/src/lib/'))).toEqual({
+      offset: 8,
+      segment: '',
+    })
+  })
+
+  it('points a relative path given for an absolute one at its start', () => {
+    expect(locationOf(Path.Analyzer.analyzeDir('absolute')('src/'))).toEqual({
+      offset: 0,
+      segment: 'src',
+    })
+  })
+})
+
+describe('Strict codecs', () => {
+  it('reject what the lenient codecs repair', () => {
+    expect('/a//b.ts').toDecodeTo(Path.AbsFile, Path.fromLiteral('/a/b.ts'))
+    expect('/a//b.ts').toFailDecoding(Path.AbsFile.Strict, 'empty segment at offset 3')
+    expect('./a/../b/').toFailDecoding(Path.RelDir.Strict, /folding.*at offset 4/)
+  })
+
+  it('accept canonical input', () => {
+    expect('../a/b.ts').toDecodeTo(Path.RelFile.Strict, Path.fromLiteral('../a/b.ts'))
+  })
+})
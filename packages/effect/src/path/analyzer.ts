@@ -1,4 +1,5 @@
-import { flow, Option, Result, SchemaIssue } from 'effect'
+import { Option, Result, SchemaIssue } from 'effect'
+import * as Extension from './models/Extension.js'
 
 // Path segment constants (internal — the codecs go through analyze/format)
 const separator = '/'
@@ -30,12 +31,53 @@ export interface AnalysisDir {
   segments: string[]
 }
 
-/** The schema issue for a path that didn't match the expected kind or absoluteness. */
-const invalid = (input: string, expected: string): SchemaIssue.Issue =>
+/** Where in the input string an issue or normalization applies. */
+export interface Location {
+  /** Character offset of `segment` in the input. */
+  offset: number
+  /** The offending segment, as written (`''` for an empty segment). */
+  segment: string
+}
+
+/**
+ * The schema issue for a path the analyzer rejects. Besides the message, the
+ * issue's annotations carry the {@link Location} (`offset`, `segment`) it points at.
+ */
+const invalid = (
+  input: string,
+  expected: string,
+  location: Location,
+  reason?: string,
+): SchemaIssue.Issue =>
   new SchemaIssue.InvalidValue(Option.some(input), {
-    message: `Expected ${expected}, received ${JSON.stringify(input)}`,
+    message: `Expected ${expected}, received ${JSON.stringify(input)}${reason ? ` (${reason})` : ''}`,
+    offset: location.offset,
+    segment: location.segment,
   })
 
+/** `input` split on `/`, each part with its character offset. */
+const locate = (input: string): Location[] => {
+  let offset = 0
+  return input.split(separator).map((segment) => {
+    const location = { offset, segment }
+    offset += segment.length + separator.length
+    return location
+  })
+}
+
+/** The first named segment of `input` (skipping `.`/`..` markers). */
+const firstNamed = (input: string): Location =>
+  locate(input).find(
+    (location) =>
+      location.segment !== '' &&
+      location.segment !== hereSegment &&
+      location.segment !== backSegment,
+  ) ?? { offset: 0, segment: '' }
+
+/** The last named segment of `input` — what decides file vs directory. */
+const lastLocation = (input: string): Location =>
+  locate(input).findLast((location) => location.segment !== '') ?? { offset: 0, segment: '' }
+
 /**
  * Normalize segments by resolving '..' references.
  * Returns the final back count and clean segments.
@@ -59,6 +101,27 @@ const normalizeWithBack = (
   return { back, segments }
 }
 
+/**
+ * Append a relative tail to a base: climb the tail's `back` steps out of the base's
+ * segments (accumulating any excess onto the base's own `back`), then descend into
+ * the tail's segments. The same fold {@link analyze} applies to `..` references.
+ *
+ * @example
+ * ```ts
+ * appendWithBack({ back: 0, segments: ['a', 'b'] }, { back: 1, segments: ['c'] })  // { back: 0, segments: ['a', 'c'] }
+ * appendWithBack({ back: 0, segments: ['a'] }, { back: 2, segments: [] })          // { back: 1, segments: [] }
+ * ```
+ */
+export const appendWithBack = (
+  base: { back: number; segments: readonly string[] },
+  tail: { back: number; segments: readonly string[] },
+): { back: number; segments: string[] } =>
+  normalizeWithBack(base.back, [
+    ...base.segments,
+    ...Array.from({ length: tail.back }, () => backSegment),
+    ...tail.segments,
+  ])
+
 /**
  * Optional hints to influence analyzer heuristics for ambiguous cases.
  *
@@ -150,6 +213,108 @@ export function analyze(input: string, options?: AnalyzerOptions): Analysis {
   }
 }
 
+/** A repair {@link analyze} makes silently, at the {@link Location} it applies to. */
+export interface Normalization extends Location {
+  /**
+   * - `EmptySegment` — a repeated `/` (`a//b`) collapsed.
+   * - `HereSegment` — a redundant `.` (`a/./b`) dropped.
+   * - `ParentFolded` — a `..` cancelled the segment before it (`a/../b`).
+   * - `AboveRoot` — a `..` that would climb above `/` dropped.
+   */
+  _tag: 'EmptySegment' | 'HereSegment' | 'ParentFolded' | 'AboveRoot'
+}
+
+/** What {@link analyzeWithReport} returns: the analysis and every repair that produced it. */
+export interface Report {
+  analysis: Analysis
+  /** Normalizations in input order; empty when the input was already canonical. */
+  normalizations: Normalization[]
+}
+
+const describeNormalization: Record<Normalization['_tag'], string> = {
+  EmptySegment: 'empty segment',
+  HereSegment: 'redundant "." segment',
+  ParentFolded: '".." folding into the segment before it',
+  AboveRoot: '".." climbing above the root',
+}
+
+/**
+ * Replay the segment fold {@link analyze} applies, recording each repair. The
+ * leading `/` of an absolute path, the trailing `/` of a directory and the leading
+ * `./` of a relative one are canonical markers, not repairs.
+ */
+const normalizationsOf = (input: string): Normalization[] => {
+  if (input === '') return []
+  const isAbsolute = input.startsWith(separator)
+  const locations = locate(input)
+  const from = isAbsolute ? 1 : 0
+  const to = input.endsWith(separator) ? locations.length - 1 : locations.length
+  const normalizations: Normalization[] = []
+  let depth = 0
+
+  for (let index = from; index < to; index++) {
+    const location = locations[index]!
+    const { segment } = location
+    if (segment === '') {
+      normalizations.push({ _tag: 'EmptySegment', ...location })
+    } else if (segment === hereSegment) {
+      const isLeadingMarker = !isAbsolute && index === 0 && locations[1]?.segment !== backSegment
+      if (!isLeadingMarker) normalizations.push({ _tag: 'HereSegment', ...location })
+    } else if (segment === backSegment) {
+      if (depth > 0) {
+        depth--
+        normalizations.push({ _tag: 'ParentFolded', ...location })
+      } else if (isAbsolute) {
+        normalizations.push({ _tag: 'AboveRoot', ...location })
+      }
+    } else {
+      depth++
+    }
+  }
+  return normalizations
+}
+
+/**
+ * {@link analyze}, plus a list of every normalization it applied — so a linter can
+ * flag sloppy paths (`src//lib/./a.ts`) rather than accept them quietly.
+ *
+ * @example
+ * ```ts
+ * analyzeWithReport('/a//b/../c.ts').normalizations
+ * // [{ _tag: 'EmptySegment', offset: 3, segment: '' }, { _tag: 'ParentFolded', offset: 6, segment: '..' }]
+ * analyzeWithReport('./src/').normalizations  // []
+ * ```
+ */
+export const analyzeWithReport = (input: string, options?: AnalyzerOptions): Report => ({
+  analysis: analyze(input, options),
+  normalizations: normalizationsOf(input),
+})
+
+/**
+ * Require `input` to need no normalization — no empty segments, redundant `.`,
+ * foldable `..` or `..` above the root. The issue points at the first repair
+ * {@link analyze} would otherwise make.
+ *
+ * @example
+ * ```ts
+ * analyzeStrict('/a/b.ts')    // Success('/a/b.ts')
+ * analyzeStrict('/a/./b.ts')  // Failure(InvalidValue: … redundant "." segment at offset 3)
+ * ```
+ */
+export const analyzeStrict = (input: string): Result.Result<string, SchemaIssue.Issue> => {
+  const [first] = normalizationsOf(input)
+  return first
+    ? Result.fail(
+        invalid(
+          input,
+          'a canonical path',
+          first,
+          `${describeNormalization[first._tag]} at offset ${first.offset}`,
+        ),
+      )
+    : Result.succeed(input)
+}
+
 /**
  * The core curried validator: parse `input`, narrow it to `kind`, and require the
  * given absoluteness. Every public path analyzer is a partial application of this.
@@ -159,13 +324,41 @@ const analyzeAs =
   (anchoring: 'absolute' | 'relative') =>
   (input: string): Result.Result<Extract<Analysis, { _tag: K }>, SchemaIssue.Issue> => {
     const analysis = analyze(input, { hint: kind })
-    return analysis._tag !== kind
-      ? Result.fail(invalid(input, kind === 'dir' ? 'a directory path' : 'a file path'))
-      : analysis.isPathAbsolute !== (anchoring === 'absolute')
-        ? Result.fail(
-            invalid(input, anchoring === 'absolute' ? 'an absolute path' : 'a relative path'),
-          )
-        : Result.succeed(analysis as Extract<Analysis, { _tag: K }>)
+    if (analysis._tag !== kind) {
+      return Result.fail(
+        kind === 'dir'
+          ? invalid(
+              input,
+              'a directory path',
+              lastLocation(input),
+              'the last segment has an extension',
+            )
+          : input.endsWith(separator)
+            ? invalid(
+                input,
+                'a file path',
+                { offset: input.length - separator.length, segment: '' },
+                'a trailing "/" marks a directory',
+              )
+            : invalid(
+                input,
+                'a file path',
+                lastLocation(input),
+                'the last segment has no extension',
+              ),
+      )
+    }
+    if (analysis.isPathAbsolute !== (anchoring === 'absolute')) {
+      return Result.fail(
+        invalid(
+          input,
+          anchoring === 'absolute' ? 'an absolute path' : 'a relative path',
+          { offset: 0, segment: locate(input)[0]!.segment },
+          anchoring === 'absolute' ? 'it does not start with "/"' : 'it starts with "/"',
+        ),
+      )
+    }
+    return Result.succeed(analysis as Extract<Analysis, { _tag: K }>)
   }
 
 /** Require a file of the given absoluteness. */
@@ -174,29 +367,47 @@ export const analyzeFile = analyzeAs('file')
 /** Require a directory of the given absoluteness. */
 export const analyzeDir = analyzeAs('dir')
 
-/** Split a filename into stem + extension (a leading dot is part of the stem). */
-const splitExtension = (fileName: string): { stem: string; extension: string | null } => {
-  const dotIndex = fileName.lastIndexOf('.')
+/**
+ * Split a filename into stem + extension (a leading dot is part of the stem). A
+ * compound extension in `registry` (`.d.ts`, `.tar.gz`) splits off whole;
+ * otherwise the split is at the last dot.
+ */
+const splitExtension = (
+  fileName: string,
+  registry: Extension.Registry,
+): { stem: string; extension: string | null } => {
+  const dotIndex = Option.match(Extension.matchCompound(fileName, registry), {
+    onNone: () => fileName.lastIndexOf('.'),
+    onSome: (extension) => fileName.length - extension.length,
+  })
   return {
     stem: dotIndex > 0 ? fileName.substring(0, dotIndex) : fileName,
     extension: dotIndex > 0 ? fileName.substring(dotIndex) : null,
   }
 }
 
-/** Issue raised when a filename input is actually a path (has segments). */
-const notABareFilename = new SchemaIssue.InvalidValue(Option.none(), {
-  message: 'Expected a bare filename, not a path',
-})
-
-/** A bare filename (a relative, segment-less file) parsed into stem + extension. */
-export const analyzeFileName = flow(
-  analyzeFile('relative'),
-  Result.flatMap((analysis) =>
+/**
+ * A bare filename (a relative, segment-less file) parsed into stem + extension,
+ * splitting compound extensions against `registry` (default `Extension.defaults`).
+ *
+ * @example
+ * ```ts
+ * analyzeFileName('index.d.ts')  // Success({ stem: 'index', extension: '.d.ts' })
+ * analyzeFileName('a.stories.tsx', Extension.extend(Extension.defaults, { '.stories.tsx': info }))
+ * // Success({ stem: 'a', extension: '.stories.tsx' })
+ * ```
+ */
+export const analyzeFileName = (
+  input: string,
+  registry: Extension.Registry = Extension.defaults,
+): Result.Result<{ stem: string; extension: string | null }, SchemaIssue.Issue> =>
+  Result.flatMap(analyzeFile('relative')(input), (analysis) =>
     analysis.segments.length > 0
-      ? Result.fail(notABareFilename)
-      : Result.succeed(splitExtension(analysis.fileName)),
-  ),
-)
+      ? Result.fail(
+          invalid(input, 'a bare filename', firstNamed(input), 'it has directory segments'),
+        )
+      : Result.succeed(splitExtension(analysis.fileName, registry)),
+  )
 
 /**
  * Build a path string — the inverse of {@link analyze}. Curried: fix the path shape
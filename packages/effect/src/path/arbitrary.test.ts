@@ -0,0 +1,33 @@
+import { describe, expect, it } from '@kitz/vitest'
+import { Effect, Schema } from 'effect'
+import { Path } from './_.js'
+
+const { Arbitrary } = Path
+
+describe('Arbitrary', () => {
+  it('every codec round-trips', () => {
+    Arbitrary.checkLaws({ numRuns: 200 })
+  })
+
+  it.prop('generates canonical paths', [Arbitrary.path], ([path]) =>
+    Effect.sync(() => {
+      const encoded = Schema.encodeSync(Path.Schema)(path)
+      expect(Schema.encodeSync(Path.Schema)(Schema.decodeSync(Path.Schema)(encoded))).toBe(encoded)
+    }),
+  )
+
+  it.prop(
+    'generates win32 paths that toPosix/fromPosix round-trip',
+    [Arbitrary.win32Path],
+    ([path]) =>
+      Effect.sync(() => {
+        expect(Path.Win32.fromPosix(Path.Win32.toPosix(path))).toSucceedWith(path)
+      }),
+  )
+
+  it('covers the win32 codecs in its laws', () => {
+    expect(Object.keys(Arbitrary.laws())).toEqual(
+      expect.arrayContaining(['Win32.AbsDir', 'Win32.AbsFile', 'Win32.Schema']),
+    )
+  })
+})
@@ -0,0 +1,224 @@
+import { Equal, Option, Schema as S } from 'effect'
+import { FastCheck as fc } from 'effect/testing'
+import { Abs } from './models/Abs.js'
+import { AbsDir } from './models/AbsDir.js'
+import { AbsFile } from './models/AbsFile.js'
+import { Dir } from './models/Dir.js'
+import * as ExtensionModule from './models/Extension.js'
+import { File } from './models/File.js'
+import { FileName as FileNameSchema } from './models/FileName.js'
+import { Path as PathSchema } from './models/Path.js'
+import { Rel } from './models/Rel.js'
+import { RelDir } from './models/RelDir.js'
+import { RelFile } from './models/RelFile.js'
+import { Segment } from './models/segment.js'
+import { AbsDir as Win32AbsDir } from './win32/models/AbsDir.js'
+import { AbsFile as Win32AbsFile } from './win32/models/AbsFile.js'
+import { Path as Win32PathSchema } from './win32/models/Path.js'
+import { Drive, type Root, Unc } from './win32/models/Root.js'
+import { reservedPattern } from './win32/models/segment.js'
+
+type FileName = typeof FileNameSchema.Type
+
+// Mostly plain name characters, with the punctuation that trips up encoders
+// (`%`, `#`, `\`, spaces, dots) and some non-ASCII.
+const nameChar = fc.oneof(
+  { weight: 12, arbitrary: fc.constantFrom(...'abcdefghijklmnopqrstuvwxyzABCXYZ0123456789') },
+  { weight: 3, arbitrary: fc.constantFrom('-', '_', ' ', '~', '@', '#', '%', '+', '\\', ':') },
+  { weight: 1, arbitrary: fc.constantFrom('é', 'ß', '日', '本', '🙂') },
+)
+const dotOrNameChar = fc.oneof(
+  { weight: 6, arbitrary: nameChar },
+  { weight: 1, arbitrary: fc.constant('.') },
+)
+
+/** Parent-traversal counts: usually shallow, sometimes deep. */
+const back = fc.oneof(
+  { weight: 4, arbitrary: fc.nat(3) },
+  { weight: 1, arbitrary: fc.integer({ min: 4, max: 64 }) },
+)
+
+/** A valid path segment — any name but `.`/`..`, dots included (`...`, `.config`, `a.b`). */
+export const segment: fc.Arbitrary<string> = fc
+  .string({ unit: dotOrNameChar, minLength: 1, maxLength: 10 })
+  .filter((name) => name !== '.' && name !== '..')
+
+const segments = fc.array(segment, { maxLength: 6 })
+
+/**
+ * An extension: a dot plus a dot-free name (`.ts`), or one of the compound
+ * extensions in `Extension.defaults` (`.d.ts`, `.tar.gz`).
+ */
+export const extension: fc.Arbitrary<string> = fc.oneof(
+  {
+    weight: 4,
+    arbitrary: fc.string({ unit: nameChar, minLength: 1, maxLength: 5 }).map((name) => `.${name}`),
+  },
+  {
+    weight: 1,
+    arbitrary: fc.constantFrom(
+      ...Array.from(ExtensionModule.defaults.keys()).filter(ExtensionModule.isCompound),
+    ),
+  },
+)
+
+/** The extension a file name splits off: a default compound suffix, else from the last dot. */
+const splitsOff = (name: string): string =>
+  Option.getOrElse(ExtensionModule.matchCompound(name), () => name.slice(name.lastIndexOf('.')))
+
+/**
+ * A file name, in canonical stem/extension form — extension-less names
+ * (`Makefile`), dotfiles (`.gitignore`), multi-dot stems (`a.min` + `.js`) and
+ * compound extensions (`index` + `.d.ts`).
+ */
+export const fileName: fc.Arbitrary<FileName> = fc.oneof(
+  fc
+    .tuple(fc.constantFrom('', '.'), fc.string({ unit: nameChar, minLength: 1, maxLength: 10 }))
+    .map(([dot, name]) => FileNameSchema.make({ stem: `${dot}${name}`, extension: Option.none() })),
+  fc
+    .tuple(segment, extension)
+    .filter(([stem, ext]) => splitsOff(`${stem}${ext}`) === ext)
+    .map(([stem, ext]) => FileNameSchema.make({ stem, extension: Option.some(ext) })),
+)
+
+/** An absolute directory — the root `/` included. */
+export const absDir: fc.Arbitrary<AbsDir> = fc.oneof(
+  { weight: 1, arbitrary: fc.constant(AbsDir.make({ segments: [] })) },
+  { weight: 6, arbitrary: segments.map((segments) => AbsDir.make({ segments })) },
+)
+
+/** An absolute file. */
+export const absFile: fc.Arbitrary<AbsFile> = fc
+  .tuple(segments, fileName)
+  .map(([segments, fileName]) => AbsFile.make({ segments, fileName }))
+
+/** A relative directory — `./`, `../../`, `../a/b/`, … */
+export const relDir: fc.Arbitrary<RelDir> = fc
+  .tuple(back, segments)
+  .map(([back, segments]) => RelDir.make({ back, segments }))
+
+/** A relative file. */
+export const relFile: fc.Arbitrary<RelFile> = fc
+  .tuple(back, segments, fileName)
+  .map(([back, segments, fileName]) => RelFile.make({ back, segments, fileName }))
+
+/** Any absolute path. */
+export const abs: fc.Arbitrary<Abs> = fc.oneof(absFile, absDir)
+
+/** Any relative path. */
+export const rel: fc.Arbitrary<Rel> = fc.oneof(relFile, relDir)
+
+/** Any file path. */
+export const file: fc.Arbitrary<File> = fc.oneof(absFile, relFile)
+
+/** Any directory path. */
+export const dir: fc.Arbitrary<Dir> = fc.oneof(absDir, relDir)
+
+/** Any path. */
+export const path: fc.Arbitrary<typeof PathSchema.Type> = fc.oneof(absFile, absDir, relFile, relDir)
+
+const encodeFileName = S.encodeSync(FileNameSchema)
+const isWin32Name = (name: string): boolean => !reservedPattern.test(name)
+
+/** A segment win32 can spell — no `\`, `:` or other reserved character. */
+export const win32Segment: fc.Arbitrary<string> = segment.filter(isWin32Name)
+
+const win32Segments = fc.array(win32Segment, { maxLength: 6 })
+
+/** A file name win32 can spell. */
+export const win32FileName: fc.Arbitrary<FileName> = fileName.filter((name) =>
+  isWin32Name(encodeFileName(name)),
+)
+
+/** A win32 root: a drive letter (`C:`) or a UNC share (`\\srv\share`). */
+export const win32Root: fc.Arbitrary<Root> = fc.oneof(
+  { weight: 3, arbitrary: fc.constantFrom(...'ACDZ').map((letter) => new Drive({ letter })) },
+  {
+    weight: 1,
+    arbitrary: fc
+      .tuple(win32Segment, win32Segment)
+      .map(([server, share]) => new Unc({ server, share })),
+  },
+)
+
+/** An absolute win32 directory — a bare root (`C:\`) included. */
+export const win32AbsDir: fc.Arbitrary<Win32AbsDir> = fc
+  .tuple(win32Root, win32Segments)
+  .map(([root, segments]) => Win32AbsDir.make({ root, segments }))
+
+/** An absolute win32 file. */
+export const win32AbsFile: fc.Arbitrary<Win32AbsFile> = fc
+  .tuple(win32Root, win32Segments, win32FileName)
+  .map(([root, segments, fileName]) => Win32AbsFile.make({ root, segments, fileName }))
+
+/** Any win32 path; relative ones are the shared `RelFile`/`RelDir` values. */
+export const win32Path: fc.Arbitrary<typeof Win32PathSchema.Type> = fc.oneof(
+  win32AbsFile,
+  win32AbsDir,
+  fc
+    .tuple(back, win32Segments, win32FileName)
+    .map(([back, segments, fileName]) => RelFile.make({ back, segments, fileName })),
+  fc.tuple(back, win32Segments).map(([back, segments]) => RelDir.make({ back, segments })),
+)
+
+/**
+ * The round-trip law for a codec: encoding a generated value and decoding the
+ * result gives back an equal value.
+ */
+export const roundTrip = <T, E>(
+  codec: S.Codec<T, E>,
+  arbitrary: fc.Arbitrary<T>,
+): fc.IProperty<[T]> =>
+  fc.property(arbitrary, (value) =>
+    Equal.equals(S.decodeSync(codec)(S.encodeSync(codec)(value)), value),
+  )
+
+/**
+ * `decode(encode(x))` equals `x` for every codec in `models/` — the member
+ * codecs, their `Strict` and `FromFileUrl` forms, the unions, and the name parts —
+ * and for the `Win32` codecs.
+ * Built on call, so importing this module constructs no properties. Run them with
+ * {@link checkLaws}, or hand single properties to a test runner.
+ */
+export const laws = () => ({
+  Segment: roundTrip(Segment, segment),
+  Extension: roundTrip(ExtensionModule.Extension, extension),
+  FileName: roundTrip(FileNameSchema, fileName),
+  AbsDir: roundTrip(AbsDir, absDir),
+  AbsFile: roundTrip(AbsFile, absFile),
+  RelDir: roundTrip(RelDir, relDir),
+  RelFile: roundTrip(RelFile, relFile),
+  'AbsDir.Strict': roundTrip(AbsDir.Strict, absDir),
+  'AbsFile.Strict': roundTrip(AbsFile.Strict, absFile),
+  'RelDir.Strict': roundTrip(RelDir.Strict, relDir),
+  'RelFile.Strict': roundTrip(RelFile.Strict, relFile),
+  'AbsDir.FromFileUrl': roundTrip(AbsDir.FromFileUrl, absDir),
+  'AbsFile.FromFileUrl': roundTrip(AbsFile.FromFileUrl, absFile),
+  Abs: roundTrip(Abs, abs),
+  Rel: roundTrip(Rel, rel),
+  File: roundTrip(File, file),
+  Dir: roundTrip(Dir, dir),
+  Path: roundTrip(PathSchema, path),
+  'Win32.AbsDir': roundTrip(Win32AbsDir, win32AbsDir),
+  'Win32.AbsFile': roundTrip(Win32AbsFile, win32AbsFile),
+  'Win32.Schema': roundTrip(Win32PathSchema, win32Path),
+})
+
+/**
+ * Assert every law in {@link laws}, throwing fast-check's report (seed, path and
+ * shrunk counterexample) for the first that fails.
+ *
+ * @example
+ * ```ts
+ * test('path codecs round-trip', () => Path.Arbitrary.checkLaws({ numRuns: 500 }))
+ * ```
+ */
+export const checkLaws = (parameters?: fc.Parameters<[unknown]>): void => {
+  for (const [name, law] of Object.entries(laws())) {
+    try {
+      fc.assert(law as fc.IProperty<[unknown]>, parameters)
+    } catch (error) {
+      throw new Error(`Round-trip law failed for ${name}`, { cause: error })
+    }
+  }
+}
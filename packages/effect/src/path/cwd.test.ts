@@ -0,0 +1,57 @@
+import { describe, expect, it, vi } from '@kitz/vitest'
+import { Effect } from 'effect'
+import { Path } from './_.js'
+
+const work = Path.fromLiteral('/work/app/')
+
+describe('Cwd.layer', () => {
+  it.effect('reads the working directory when the layer is built', () =>
+    Effect.gen(function* () {
+      const spy = vi.spyOn(process, 'cwd').mockReturnValue('/elsewhere/project')
+      try {
+        const cwd = yield* Effect.provide(
+          Path.Cwd.useSync((dir) => dir),
+          Path.Cwd.layer,
+        )
+        expect(cwd).toEqual(Path.fromLiteral('/elsewhere/project/'))
+      } finally {
+        spy.mockRestore()
+      }
+    }),
+  )
+})
+
+it.layer(Path.Cwd.layerTest(work))('with a pinned working directory', (it) => {
+  it.effect('toAbsolute anchors relative paths', () =>
+    Effect.gen(function* () {
+      expect(yield* Path.toAbsolute(Path.fromLiteral('./src/'))).toEqual(
+        Path.fromLiteral('/work/app/src/'),
+      )
+      expect(yield* Path.toAbsolute(Path.fromLiteral('../lib/a.ts'))).toEqual(
+        Path.fromLiteral('/work/lib/a.ts'),
+      )
+    }),
+  )
+
+  it.effect('toAbsolute passes absolute paths through', () =>
+    Effect.gen(function* () {
+      const abs = Path.fromLiteral('/etc/app.conf')
+      expect(yield* Path.toAbsolute(abs)).toEqual(abs)
+    }),
+  )
+
+  it.effect('toAbsolute fails above the root', () =>
+    Effect.gen(function* () {
+      const exit = yield* Effect.exit(Path.toAbsolute(Path.fromLiteral('../../../x/')))
+      expect(exit).toFailWithTag('AboveRootError')
+    }),
+  )
+
+  it.effect('toRelative leads from the working directory', () =>
+    Effect.gen(function* () {
+      expect(yield* Path.toRelative(Path.fromLiteral('/work/lib/a.ts'))).toEqual(
+        Path.fromLiteral('../lib/a.ts'),
+      )
+    }),
+  )
+})
@@ -0,0 +1,59 @@
+import { Context, Effect, Layer, Schema as S } from 'effect'
+import { resolve, type Resolved, type ResolveError } from './join.js'
+import type { Abs } from './models/Abs.js'
+import { AbsDir } from './models/AbsDir.js'
+import type { Path as PathSchema } from './models/Path.js'
+import { relative, type Relative } from './relationship.js'
+
+type Path = typeof PathSchema.Type
+
+/**
+ * The current working directory, as a service — what relative paths are anchored
+ * to. Provide {@link Cwd.layer} for the process's directory, or
+ * {@link Cwd.layerTest} to pin it.
+ *
+ * @example
+ * ```ts
+ * it.layer(Path.Cwd.layerTest(absDir('/work/app/')))((it) => {
+ *   it.effect('anchors ./src/', () => Path.toAbsolute(relDir('./src/')))  // AbsDir /work/app/src/
+ * })
+ * ```
+ */
+export class Cwd extends Context.Service<Cwd, AbsDir>()('@kitz/effect/Path/Cwd') {
+  /** The process's working directory (`process.cwd()`), read once when the layer is built. */
+  static readonly layer: Layer.Layer<Cwd> = Layer.effect(Cwd)(
+    Effect.sync(() => process.cwd()).pipe(
+      Effect.flatMap((dir) => S.decodeEffect(AbsDir)(dir.endsWith('/') ? dir : `${dir}/`)),
+      Effect.orDie,
+    ),
+  )
+
+  /** A fixed working directory. */
+  static readonly layerTest = (dir: AbsDir): Layer.Layer<Cwd> => Layer.succeed(Cwd)(dir)
+}
+
+/**
+ * Anchor a path to the working directory: relative paths are joined onto it,
+ * absolute ones pass through (see `resolve`). Climbing above `/` fails with
+ * `AboveRootError`.
+ *
+ * @example
+ * ```ts
+ * toAbsolute(relDir('./src/'))  // Effect<AbsDir /work/app/src/, never, Cwd>
+ * ```
+ */
+export const toAbsolute = <P extends Path>(
+  path: P,
+): Effect.Effect<Resolved<AbsDir, P>, ResolveError<AbsDir, P>, Cwd> =>
+  Cwd.use((cwd) => Effect.fromResult(resolve(cwd, path)))
+
+/**
+ * The path leading from the working directory to `path` (see `relative`).
+ *
+ * @example
+ * ```ts
+ * toRelative(absFile('/work/lib/a.ts'))  // Effect<RelFile ../lib/a.ts, never, Cwd>
+ * ```
+ */
+export const toRelative = <P extends Abs>(path: P): Effect.Effect<Relative<P>, never, Cwd> =>
+  Cwd.useSync((cwd) => relative(cwd, path))
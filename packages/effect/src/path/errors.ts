@@ -0,0 +1,38 @@
+import { Schema as S } from 'effect'
+import { NaturalInt } from '../schema/NaturalInt.js'
+import { AbsDir } from './models/AbsDir.js'
+
+/**
+ * An operation tried to climb above the filesystem root — e.g. joining `../../x`
+ * onto `/a/`. Absolute paths have nowhere to put the excess `back` steps, so this
+ * is reported instead of silently clamping at `/`.
+ */
+export class AboveRootError extends S.TaggedErrorClass<AboveRootError>()('AboveRootError', {
+  /** The absolute directory the climb started from. */
+  base: AbsDir,
+  /** The number of parent steps that were requested. */
+  back: NaturalInt,
+}) {
+  override get message() {
+    return `Cannot climb ${this.back} level(s) above ${S.encodeSync(AbsDir)(this.base)}`
+  }
+}
+
+/**
+ * A path template referenced a variable (or `~`, via `HOME`) that the active
+ * `ConfigProvider` has no value for — e.g. `$XDG_CONFIG_HOME/app/` with
+ * `XDG_CONFIG_HOME` unset.
+ */
+export class UnresolvedVariableError extends S.TaggedErrorClass<UnresolvedVariableError>()(
+  'UnresolvedVariableError',
+  {
+    /** The variable that has no value (`HOME` for `~`). */
+    variable: S.String,
+    /** The template being expanded. */
+    template: S.String,
+  },
+) {
+  override get message() {
+    return `Cannot expand ${JSON.stringify(this.template)}: ${this.variable} is not set`
+  }
+}
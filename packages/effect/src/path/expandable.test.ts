@@ -0,0 +1,136 @@
+import { describe, expect, it } from '@kitz/vitest'
+import { ConfigProvider, Effect, Option, Result, Schema } from 'effect'
+import { Path } from './_.js'
+
+describe('parse', () => {
+  it('splits a template into home, variables and text', () => {
+    expect(Result.map(Path.Expandable.parse('~/a/${B}/$C_1-$$.txt'), (t) => t.parts)).toEqual(
+      Result.succeed([
+        { _tag: 'Home' },
+        { _tag: 'Text', text: '/a/' },
+        { _tag: 'Variable', name: 'B' },
+        { _tag: 'Text', text: '/' },
+        { _tag: 'Variable', name: 'C_1' },
+        { _tag: 'Text', text: '-$.txt' },
+      ]),
+    )
+  })
+
+  it.each([
+    ['~user/x/', 0, '~user is not supported'],
+    ['/a/$/b/', 3, 'a variable name after "$"'],
+    ['/a/${B/', 3, 'a closing "}"'],
+    ['/a/${1B}/', 3, 'a variable name'],
+  ])('rejects %s at offset %i', (input, offset, message) => {
+    const parsed = Path.Expandable.parse(input)
+    const reported = Result.isFailure(parsed) && parsed.failure.toString()
+    expect(reported).toContain(message)
+    expect(reported).toContain(`at offset ${offset}`)
+  })
+})
+
+it.layer(Path.Expandable.layerEnv({ HOME: '/home/me', PROJECT_ROOT: '/work/app' }))(
+  'resolve',
+  (it) => {
+    it.effect('expands home and variables, then decodes', () =>
+      Effect.gen(function* () {
+        expect(yield* Path.Expandable.resolve(Path.AbsDir)('~/cache/')).toEqual(
+          Path.fromLiteral('/home/me/cache/'),
+        )
+        expect(yield* Path.Expandable.resolve(Path.AbsFile)('${PROJECT_ROOT}/build/a.js')).toEqual(
+          Path.fromLiteral('/work/app/build/a.js'),
+        )
+      }),
+    )
+
+    it.effect('fails with UnresolvedVariableError for an unset variable', () =>
+      Effect.gen(function* () {
+        const exit = yield* Effect.exit(Path.Expandable.resolve(Path.AbsDir)('$MISSING/x/'))
+        expect(exit).toFailWithTag('UnresolvedVariableError')
+      }),
+    )
+
+    it.effect('fails with SchemaError for bad syntax or a rejected expansion', () =>
+      Effect.gen(function* () {
+        expect(yield* Effect.exit(Path.Expandable.resolve(Path.AbsDir)('$/x/'))).toFailWithTag(
+          'SchemaError',
+        )
+        expect(
+          yield* Effect.exit(Path.Expandable.resolve(Path.AbsFile)('$PROJECT_ROOT/')),
+        ).toFailWithTag('SchemaError')
+      }),
+    )
+
+    it.effect('Expandable codecs decode templates and encode resolved paths', () =>
+      Effect.gen(function* () {
+        const dir = yield* Schema.decodeEffect(Path.Expandable.AbsDir)('~/.config/')
+        expect(dir).toEqual(Path.fromLiteral('/home/me/.config/'))
+        expect(Schema.encodeSync(Path.Expandable.AbsDir)(dir)).toBe('/home/me/.config/')
+        const exit = yield* Effect.exit(Schema.decodeEffect(Path.Expandable.Abs)('$NOPE/'))
+        expect(exit).toFailWithTag('SchemaError')
+      }),
+    )
+
+    it.effect('Expandable codecs keep the typed error of a missing variable on the issue', () =>
+      Effect.gen(function* () {
+        const error = yield* Effect.flip(Schema.decodeEffect(Path.Expandable.AbsDir)('$NOPE/x/'))
+        expect(error.message).toBe('Cannot expand "$NOPE/x/": NOPE is not set')
+        const cause = Path.Expandable.expansionError(error.issue)
+        expect(Option.map(cause, (cause) => cause._tag)).toBeSome('UnresolvedVariableError')
+        expect(cause).toBeSome(
+          new Path.UnresolvedVariableError({ variable: 'NOPE', template: '$NOPE/x/' }),
+        )
+      }),
+    )
+
+    it.effect('finds the typed error through enclosing schemas', () =>
+      Effect.gen(function* () {
+        const Config = Schema.Struct({ dirs: Schema.Array(Path.Expandable.AbsDir) })
+        const error = yield* Effect.flip(Schema.decodeEffect(Config)({ dirs: ['~/ok/', '$NOPE/'] }))
+        expect(
+          Option.map(Path.Expandable.expansionError(error.issue), (cause) => cause._tag),
+        ).toBeSome('UnresolvedVariableError')
+      }),
+    )
+
+    it.effect('has no expansion error when the expanded path is what fails', () =>
+      Effect.gen(function* () {
+        const error = yield* Effect.flip(
+          Schema.decodeEffect(Path.Expandable.AbsFile)('$PROJECT_ROOT/'),
+        )
+        expect(Path.Expandable.expansionError(error.issue)).toBeNone()
+      }),
+    )
+  },
+)
+
+it.layer(
+  ConfigProvider.layer(
+    ConfigProvider.make(() =>
+      Effect.fail(new ConfigProvider.SourceError({ message: 'vault is sealed' })),
+    ),
+  ),
+)('unreadable configuration', (it) => {
+  it.effect('Expandable codecs report it apart from a missing variable', () =>
+    Effect.gen(function* () {
+      const error = yield* Effect.flip(Schema.decodeEffect(Path.Expandable.AbsDir)('$HOST/x/'))
+      expect(error.message).toContain(
+        'Cannot expand "$HOST/x/": the configuration could not be read',
+      )
+      expect(error.message).toContain('vault is sealed')
+      expect(
+        Option.map(Path.Expandable.expansionError(error.issue), (cause) => cause._tag),
+      ).toBeSome('ConfigError')
+    }),
+  )
+})
+
+it.layer(Path.Expandable.layerEnv({ USERPROFILE: '/Users/me' }))('without HOME', (it) => {
+  it.effect('falls back to USERPROFILE for ~', () =>
+    Effect.gen(function* () {
+      expect(yield* Path.Expandable.resolve(Path.AbsDir)('~/')).toEqual(
+        Path.fromLiteral('/Users/me/'),
+      )
+    }),
+  )
+})
@@ -0,0 +1,254 @@
+import {
+  Config,
+  ConfigProvider,
+  Effect,
+  Layer,
+  Option,
+  Result,
+  Schema as S,
+  SchemaGetter,
+  SchemaIssue,
+} from 'effect'
+import { UnresolvedVariableError } from './errors.js'
+import { Abs as AbsSchema } from './models/Abs.js'
+import { AbsDir as AbsDirSchema } from './models/AbsDir.js'
+import { AbsFile as AbsFileSchema } from './models/AbsFile.js'
+
+/** One piece of a path template. */
+export type Part =
+  | { readonly _tag: 'Text'; readonly text: string }
+  | { readonly _tag: 'Home' }
+  | { readonly _tag: 'Variable'; readonly name: string }
+
+/** A parsed path template: its source text and the parts it expands from. */
+export interface Template {
+  readonly input: string
+  readonly parts: readonly Part[]
+}
+
+const variableName = /^[A-Za-z_][A-Za-z0-9_]*/
+
+const invalid = (input: string, expected: string, offset: number): SchemaIssue.Issue =>
+  new SchemaIssue.InvalidValue(Option.some(input), {
+    message: `Expected ${expected} at offset ${offset}, received ${JSON.stringify(input)}`,
+    offset,
+  })
+
+/**
+ * Parse a path template: a leading `~` (alone or before `/`) stands for the home
+ * directory, `$NAME` and `${NAME}` for variables, and `$$` for a literal `$`.
+ * `~user` and a `$` without a name are rejected.
+ *
+ * @example
+ * ```ts
+ * parse('~/cache/')             // Success({ parts: [Home, Text '/cache/'] })
+ * parse('${PROJECT_ROOT}/build/') // Success({ parts: [Variable PROJECT_ROOT, Text '/build/'] })
+ * parse('$/x')                  // Failure(InvalidValue: Expected a variable name after "$" at offset 0 …)
+ * ```
+ */
+export const parse = (input: string): Result.Result<Template, SchemaIssue.Issue> => {
+  const parts: Part[] = []
+  const text = (value: string) => {
+    const last = parts.at(-1)
+    if (last?._tag === 'Text') parts[parts.length - 1] = { _tag: 'Text', text: last.text + value }
+    else parts.push({ _tag: 'Text', text: value })
+  }
+
+  let offset = 0
+  if (input.startsWith('~')) {
+    if (input.length > 1 && input[1] !== '/') {
+      return Result.fail(invalid(input, '"~" alone or before "/" (~user is not supported)', 0))
+    }
+    parts.push({ _tag: 'Home' })
+    offset = 1
+  }
+
+  while (offset < input.length) {
+    const dollar = input.indexOf('$', offset)
+    if (dollar === -1) {
+      text(input.slice(offset))
+      break
+    }
+    if (dollar > offset) text(input.slice(offset, dollar))
+
+    const rest = input.slice(dollar + 1)
+    if (rest.startsWith('$')) {
+      text('$')
+      offset = dollar + 2
+    } else if (rest.startsWith('{')) {
+      const close = rest.indexOf('}')
+      const name = close === -1 ? undefined : rest.slice(1, close)
+      if (name === undefined || variableName.exec(name)?.[0] !== name) {
+        return Result.fail(invalid(input, 'a variable name and a closing "}" after "${"', dollar))
+      }
+      parts.push({ _tag: 'Variable', name })
+      offset = dollar + close + 2
+    } else {
+      const name = variableName.exec(rest)?.[0]
+      if (!name) return Result.fail(invalid(input, 'a variable name after "$"', dollar))
+      parts.push({ _tag: 'Variable', name })
+      offset = dollar + 1 + name.length
+    }
+  }
+
+  return Result.succeed({ input, parts })
+}
+
+/** The home directory: `HOME`, falling back to Windows' `USERPROFILE`. */
+const home = Config.string('HOME').pipe(Config.orElse(() => Config.string('USERPROFILE')))
+
+const lookup = (template: Template, name: string, config: Config.Config<string>) =>
+  Config.option(config).pipe(
+    Effect.flatMap(
+      Option.match({
+        onNone: () =>
+          Effect.fail(new UnresolvedVariableError({ variable: name, template: template.input })),
+        onSome: Effect.succeed,
+      }),
+    ),
+  )
+
+/**
+ * Expand a template through Effect `Config` — so values come from whichever
+ * `ConfigProvider` is active (the environment by default, see {@link layerEnv}).
+ * Fails with `UnresolvedVariableError` for a variable that isn't set.
+ *
+ * @example
+ * ```ts
+ * expand(template).pipe(Effect.provide(layerEnv({ HOME: '/home/me' })))  // '/home/me/cache/'
+ * ```
+ */
+export const expand = (
+  template: Template,
+): Effect.Effect<string, UnresolvedVariableError | Config.ConfigError> =>
+  Effect.forEach(template.parts, (part) =>
+    part._tag === 'Text'
+      ? Effect.succeed(part.text)
+      : part._tag === 'Home'
+        ? lookup(template, 'HOME', home)
+        : lookup(template, part.name, Config.string(part.name)),
+  ).pipe(Effect.map((values) => values.join('')))
+
+/**
+ * Parse, expand and decode a template into a path value in one step, keeping each
+ * failure typed: `SchemaError` for bad template syntax or an expansion the codec
+ * rejects, `UnresolvedVariableError` for a missing variable.
+ *
+ * @example
+ * ```ts
+ * resolve(Path.AbsDir)('$XDG_CONFIG_HOME/app/')  // Effect<AbsDir, SchemaError | UnresolvedVariableError | ConfigError>
+ * ```
+ */
+export const resolve =
+  <To extends S.Codec<unknown, string>>(to: To) =>
+  (
+    input: string,
+  ): Effect.Effect<
+    To['Type'],
+    S.SchemaError | UnresolvedVariableError | Config.ConfigError,
+    To['DecodingServices']
+  > =>
+    Effect.fromResult(parse(input)).pipe(
+      Effect.mapError((issue) => new S.SchemaError(issue)),
+      Effect.flatMap(expand),
+      Effect.flatMap(S.decodeEffect(to)),
+    )
+
+/** The issue annotation an {@link expandable} codec keeps its typed expansion error under. */
+const expansionErrorKey = '@kitz/effect/Path/Expandable/error'
+
+/** The decoding issue for a failed expansion, carrying the typed error itself. */
+const expansionIssue = (
+  input: string,
+  error: UnresolvedVariableError | Config.ConfigError,
+): SchemaIssue.Issue =>
+  new SchemaIssue.InvalidValue(Option.some(input), {
+    message:
+      error._tag === 'UnresolvedVariableError'
+        ? error.message
+        : `Cannot expand ${JSON.stringify(input)}: the configuration could not be read (${error.message})`,
+    [expansionErrorKey]: error,
+  })
+
+/**
+ * Wrap a path-string codec so decoding expands `~`, `$NAME` and `${NAME}` first
+ * (see {@link parse}); a missing variable or unreadable configuration becomes a
+ * decoding issue that still carries the typed error (see {@link expansionError}).
+ * Encoding writes the resolved path — templates aren't kept.
+ */
+export const expandable = <To extends S.Codec<unknown, string>>(to: To) =>
+  S.String.pipe(
+    S.decodeTo(to, {
+      encode: SchemaGetter.passthrough(),
+      decode: SchemaGetter.transformOrFail((input: string) =>
+        Effect.fromResult(parse(input)).pipe(
+          Effect.flatMap((template) =>
+            expand(template).pipe(Effect.mapError((error) => expansionIssue(input, error))),
+          ),
+        ),
+      ),
+    }),
+  )
+
+/**
+ * The typed error behind an {@link expandable} decoding failure, found anywhere in
+ * the issue tree (the codec may sit inside a struct, union, …). `None` when the
+ * failure wasn't an expansion.
+ *
+ * @example
+ * ```ts
+ * S.decodeEffect(Expandable.AbsDir)('$MISSING/').pipe(
+ *   Effect.mapError((error) => expansionError(error.issue)),
+ * )  // Some(UnresolvedVariableError { variable: 'MISSING', … })
+ * ```
+ */
+export const expansionError = (
+  issue: SchemaIssue.Issue,
+): Option.Option<UnresolvedVariableError | Config.ConfigError> => {
+  switch (issue._tag) {
+    case 'InvalidValue':
+      return Option.fromUndefinedOr(
+        issue.annotations?.[expansionErrorKey] as
+          | UnresolvedVariableError
+          | Config.ConfigError
+          | undefined,
+      )
+    case 'Filter':
+    case 'Encoding':
+    case 'Pointer':
+      return expansionError(issue.issue)
+    case 'Composite':
+    case 'AnyOf':
+      return Option.firstSomeOf(issue.issues.map(expansionError))
+    default:
+      return Option.none()
+  }
+}
+
+/**
+ * An absolute directory written as a template.
+ *
+ * @example
+ * ```ts
+ * S.decodeEffect(Expandable.AbsDir)('~/cache/')  // AbsDir /home/me/cache/
+ * ```
+ */
+export const AbsDir = expandable(AbsDirSchema)
+
+/** An absolute file written as a template. */
+export const AbsFile = expandable(AbsFileSchema)
+
+/** An absolute path (file or directory) written as a template. */
+export const Abs = expandable(AbsSchema)
+
+/**
+ * Resolve templates against a fixed set of variables instead of the process
+ * environment, for deterministic tests.
+ *
+ * @example
+ * ```ts
+ * it.layer(Expandable.layerEnv({ HOME: '/home/me', PROJECT_ROOT: '/work/app' }))(…)
+ * ```
+ */
+export const layerEnv = (env: Record<string, string>): Layer.Layer<never> =>
+  ConfigProvider.layer(ConfigProvider.fromEnv({ env }))
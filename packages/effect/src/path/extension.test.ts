@@ -0,0 +1,90 @@
+import { describe, expect, it } from '@kitz/vitest'
+import { Effect, Option, Result, Schema as S } from 'effect'
+import { Path } from './_.js'
+
+const stories: Path.Extension.Info = { mime: 'text/tsx', language: 'typescriptreact' }
+
+const split = (fileName: string, registry?: Path.Extension.Registry) =>
+  Result.getOrThrow(Path.Analyzer.analyzeFileName(fileName, registry))
+
+describe('compound extensions', () => {
+  it.each([
+    ['index.d.ts', 'index', '.d.ts'],
+    ['bundle.tar.gz', 'bundle', '.tar.gz'],
+    ['a.test.ts', 'a', '.test.ts'],
+    ['index.ts', 'index', '.ts'],
+    ['.d.ts', '.d', '.ts'],
+    ['.gitignore', '.gitignore', null],
+  ])('%s splits into %s + %s', (fileName, stem, extension) => {
+    expect(split(fileName)).toEqual({ stem, extension })
+  })
+
+  it('file path codecs keep them whole', () => {
+    expect(Path.fromLiteral('/src/index.d.ts').fileName.extension).toBeSome('.d.ts')
+  })
+})
+
+describe('extend', () => {
+  it('returns a new registry the analyzer can split against', () => {
+    const extensions = Path.Extension.extend(Path.Extension.defaults, { '.stories.tsx': stories })
+    expect(split('Button.stories.tsx', extensions)).toEqual({
+      stem: 'Button',
+      extension: '.stories.tsx',
+    })
+    expect(Path.Extension.info('.stories.tsx', extensions)).toBeSome(stories)
+  })
+
+  it('leaves the registry it extends untouched', () => {
+    Path.Extension.extend(Path.Extension.defaults, { '.stories.tsx': stories })
+    expect(Path.Extension.defaults.has('.stories.tsx')).toBe(false)
+    expect(split('Button.stories.tsx')).toEqual({ stem: 'Button.stories', extension: '.tsx' })
+  })
+
+  it('throws on a malformed extension', () => {
+    expect(() => Path.Extension.extend(Path.Extension.defaults, { tsx: stories })).toThrow()
+  })
+})
+
+it.layer(
+  Path.Extension.layer(Path.Extension.extend(Path.Extension.defaults, { '.stories.tsx': stories })),
+)('codecs under Extension.layer', (it) => {
+  it.effect('split file names against the provided registry', () =>
+    Effect.gen(function* () {
+      const file = yield* S.decodeEffect(Path.AbsFile)('/ui/Button.stories.tsx')
+      expect(file.fileName.stem).toBe('Button')
+      expect(file.fileName.extension).toBeSome('.stories.tsx')
+      const path = yield* S.decodeEffect(Path.Schema)('./Card.stories.tsx')
+      expect(S.is(Path.RelFile)(path) && Option.getOrNull(path.fileName.extension)).toBe(
+        '.stories.tsx',
+      )
+    }),
+  )
+
+  it.effect('still encode back to the same string', () =>
+    Effect.gen(function* () {
+      const file = yield* S.decodeEffect(Path.AbsFile)('/ui/Button.stories.tsx')
+      expect(S.encodeSync(Path.AbsFile)(file)).toBe('/ui/Button.stories.tsx')
+    }),
+  )
+})
+
+describe('codecs without Extension.layer', () => {
+  it('split file names against the defaults', () => {
+    const file = S.decodeSync(Path.AbsFile)('/ui/Button.stories.tsx')
+    expect(file.fileName.stem).toBe('Button.stories')
+    expect(file.fileName.extension).toBeSome('.tsx')
+  })
+})
+
+describe('info', () => {
+  it('knows MIME types and language IDs', () => {
+    expect(Path.Extension.mimeType('.json')).toBeSome('application/json')
+    expect(Path.Extension.languageId('.tsx')).toBeSome('typescriptreact')
+    expect(Path.Extension.languageId('.png')).toBeNone()
+  })
+
+  it('falls back to the last part of an unregistered compound extension', () => {
+    expect(Path.Extension.mimeType('.min.js')).toBeSome('text/javascript')
+    expect(Path.Extension.info('.xyz')).toBeNone()
+  })
+})
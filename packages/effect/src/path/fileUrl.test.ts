@@ -0,0 +1,56 @@
+import { Result, Schema as S } from 'effect'
+import { describe, expect, it } from '@kitz/vitest'
+import { Path } from './_.js'
+import { decodeFileUrl, encodeFileUrl } from './fileUrl.js'
+
+describe('decodeFileUrl', () => {
+  it.each([
+    ['file:///home/me/My%20Notes.md', '/home/me/My Notes.md'],
+    ['file://localhost/a/b.md', '/a/b.md'],
+    ['file:///a/%23%3F%25.md', '/a/#?%.md'],
+    ['file:///a/b.md?', '/a/b.md'],
+    ['file:///a/..b/', '/a/..b/'],
+  ])('%s → %s', (input, path) => {
+    expect(decodeFileUrl(input)).toSucceedWith(path)
+  })
+
+  it.each([
+    ['not a url', 'a URL'],
+    ['https://example.com/a.md', 'a file: URL'],
+    ['file://server/a.md', 'without a host'],
+    ['file:///a/b.md?q', 'without a query or hash'],
+    ['file:///a/b.md#h', 'without a query or hash'],
+    ['file:///a/b.md?q#h', 'without a query or hash'],
+    ['file:///a/%2e%2e/b.md', 'without "." or ".." segments'],
+    ['file:///a/%2E/b.md', 'without "." or ".." segments'],
+    ['file:///a/.%2e/b.md', 'without "." or ".." segments'],
+    ['file:///a/../b.md', 'without "." or ".." segments'],
+    ['file:///a/%2F/b.md', 'no encoded "/"'],
+    ['file:///a/%E0%A4%A/b.md', 'well-formed percent-encoded'],
+  ])('rejects %s', (input, expected) => {
+    const result = decodeFileUrl(input)
+    expect(result).toFailWithTag('InvalidValue')
+    expect(Result.isFailure(result) && String(result.failure)).toContain(expected)
+  })
+})
+
+describe('encodeFileUrl', () => {
+  it('percent-encodes every segment, so decoding reverses it', () => {
+    const path = '/a b/#?%.md'
+    expect(encodeFileUrl(path)).toBe('file:///a%20b/%23%3F%25.md')
+    expect(decodeFileUrl(encodeFileUrl(path))).toSucceedWith(path)
+  })
+})
+
+describe('FromFileUrl', () => {
+  it('decodes a URL into a path and encodes it back', () => {
+    const file = S.decodeSync(Path.AbsFile.FromFileUrl)('file:///home/me/My%20Notes.md')
+    expect(file).toEqual(Path.fromLiteral('/home/me/My Notes.md'))
+    expect(S.encodeSync(Path.AbsFile.FromFileUrl)(file)).toBe('file:///home/me/My%20Notes.md')
+  })
+
+  it('fails decoding a URL with a hash', () => {
+    expect('file:///home/me/').not.toFailDecoding(Path.AbsDir.FromFileUrl)
+    expect('file:///home/me/#x').toFailDecoding(Path.AbsDir.FromFileUrl, 'without a query or hash')
+  })
+})
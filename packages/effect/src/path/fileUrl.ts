@@ -0,0 +1,88 @@
+import { Effect, Option, Result, Schema as S, SchemaGetter, SchemaIssue } from 'effect'
+
+const protocol = 'file:'
+const separator = '/'
+
+/** Hosts that address the local machine; any other host is a remote (UNC-style) file. */
+const localHosts: ReadonlySet<string> = new Set(['', 'localhost'])
+
+const invalid = (input: string, expected: string): SchemaIssue.Issue =>
+  new SchemaIssue.InvalidValue(Option.some(input), {
+    message: `Expected ${expected}, received ${JSON.stringify(input)}`,
+  })
+
+/**
+ * A `.` or `..` segment, plain or percent-encoded. The URL parser resolves these
+ * before we see the path (`/a/%2e%2e/b` → `/b`), so they're caught in the raw input.
+ */
+const dotSegmentPattern = /^(?:\.|%2e){1,2}$/i
+
+/** The raw path of a URL string: everything before its query or hash. */
+const rawPath = (input: string): string => input.replace(/[?#][^]*$/, '')
+
+/** Percent-decode one URL path segment; an escaped `/` or NUL can't be a segment, so it fails. */
+const decodeSegment = (input: string) => (segment: string) =>
+  Result.try({
+    try: () => decodeURIComponent(segment),
+    catch: () => invalid(input, 'a well-formed percent-encoded path'),
+  }).pipe(
+    Result.flatMap((decoded) =>
+      /[/\u0000]/.test(decoded)
+        ? Result.fail(invalid(input, 'no encoded "/" or NUL in a path segment'))
+        : Result.succeed(decoded),
+    ),
+  )
+
+/**
+ * Decode a `file://` URL into the POSIX path string it addresses, percent-decoding
+ * each segment. Non-`file:` schemes, non-local hosts, a query or hash (a path has
+ * nowhere to keep them) and `.`/`..` segments (encoded or not) fail.
+ *
+ * @example
+ * ```ts
+ * decodeFileUrl('file:///home/me/My%20Notes.md')  // Success('/home/me/My Notes.md')
+ * decodeFileUrl('https://example.com/a.md')       // Failure(InvalidValue)
+ * decodeFileUrl('file:///a/b.md#top')             // Failure(InvalidValue)
+ * decodeFileUrl('file:///a/%2e%2e/b.md')          // Failure(InvalidValue)
+ * ```
+ */
+export const decodeFileUrl = (input: string): Result.Result<string, SchemaIssue.Issue> => {
+  if (!URL.canParse(input)) return Result.fail(invalid(input, 'a URL'))
+  const url = new URL(input)
+  if (url.protocol !== protocol) return Result.fail(invalid(input, 'a file: URL'))
+  if (!localHosts.has(url.hostname))
+    return Result.fail(invalid(input, 'a file: URL without a host'))
+  if (url.search !== '' || url.hash !== '')
+    return Result.fail(invalid(input, 'a file: URL without a query or hash'))
+  if (
+    rawPath(input)
+      .split(separator)
+      .some((segment) => dotSegmentPattern.test(segment))
+  )
+    return Result.fail(invalid(input, 'a file: URL without "." or ".." segments'))
+  return Result.map(
+    Result.all(url.pathname.split(separator).map(decodeSegment(input))),
+    (segments) => segments.join(separator),
+  )
+}
+
+/**
+ * Encode a POSIX path string as a `file://` URL — the inverse of {@link decodeFileUrl}.
+ * Every segment is percent-encoded, so `#`, `?` and `%` in names survive the trip.
+ */
+export const encodeFileUrl = (path: string): string =>
+  `${protocol}//${path.split(separator).map(encodeURIComponent).join(separator)}`
+
+/**
+ * Wrap a POSIX path-string codec so it reads and writes `file://` URLs instead:
+ * `url ⇄ path string ⇄ value`.
+ */
+export const fromFileUrl = <To extends S.Codec<unknown, string>>(to: To) =>
+  S.String.pipe(
+    S.decodeTo(to, {
+      encode: SchemaGetter.transform(encodeFileUrl),
+      decode: SchemaGetter.transformOrFail((input: string) =>
+        Effect.fromResult(decodeFileUrl(input)),
+      ),
+    }),
+  )
@@ -0,0 +1,135 @@
+import { Result, Schema as S } from 'effect'
+import { describe, expect, it } from '@kitz/vitest'
+import { Path } from './_.js'
+
+const { Glob } = Path
+const p = (input: string) => S.decodeSync(Path.Schema)(input)
+const glob = (pattern: string) => Result.getOrThrow(Glob.parse(pattern))
+
+describe('parse', () => {
+  it.each([
+    ['a/[b', 2, 'a closing "]"'],
+    ['src/{a,b', 4, 'a closing "}"'],
+    ['a/b**', 3, '"**" to stand alone'],
+    ['[z-a]', 3, 'a range in order (z-a is reversed)'],
+    ['a//b', 2, 'a non-empty segment'],
+    ['a/./b', 2, 'no "." segment'],
+    ['{a/b}', 2, 'no "/" inside braces'],
+    ['[a/]', 2, 'no "/" inside a character class'],
+    ['a\\', 1, 'a character to escape'],
+    ['', 0, 'a pattern'],
+  ])('rejects %j at offset %i', (pattern, offset, expected) => {
+    const parsed = Glob.parse(pattern)
+    expect(parsed).toFailWithTag('InvalidValue')
+    const issue = Result.isFailure(parsed) ? parsed.failure : undefined
+    expect(String(issue)).toContain(`Expected ${expected}`)
+    expect(issue?._tag === 'InvalidValue' && issue.annotations?.['offset']).toBe(offset)
+  })
+
+  it('reads flags off the ends', () => {
+    expect(glob('!/a/**/')).toMatchObject({ negated: true, absolute: true, directoryOnly: true })
+    expect(glob('./a/*.ts')).toMatchObject({
+      negated: false,
+      absolute: false,
+      directoryOnly: false,
+    })
+  })
+})
+
+describe('matches', () => {
+  it.each([
+    ['{a,b{c,d}}.ts', './a.ts', true],
+    ['{a,b{c,d}}.ts', './bc.ts', true],
+    ['{a,b{c,d}}.ts', './bd.ts', true],
+    ['{a,b{c,d}}.ts', './b.ts', false],
+    ['{a,b{c,d}}.ts', './ab.ts', false],
+    ['[!a]*.ts', './b.ts', true],
+    ['[!a]*.ts', './a.ts', false],
+    ['[a-c_]?.md', './_x.md', true],
+    ['[a-c_]?.md', './d1.md', false],
+    ['src/**/*.ts', './src/a.ts', true],
+    ['src/**/*.ts', './src/a/b/c.ts', true],
+    ['src/**/*.ts', './lib/a.ts', false],
+    ['/etc/*.conf', '/etc/app.conf', true],
+    ['/etc/*.conf', './etc/app.conf', false],
+    ['etc/*.conf', '/etc/app.conf', false],
+    ['../*.ts', '../a.ts', true],
+    ['*/', './src/', true],
+    ['*/', './a.ts', false],
+    ['\\*.ts', './*.ts', true],
+    ['\\*.ts', './a.ts', false],
+  ])('%s ~ %s → %s', (pattern, path, expected) => {
+    expect(Glob.matches(glob(pattern), p(path))).toBe(expected)
+  })
+
+  it('inverts with a leading !', () => {
+    expect(Glob.matches(glob('!*.ts'), p('./a.ts'))).toBe(false)
+    expect(Glob.matches(glob('!*.ts'), p('./a.js'))).toBe(true)
+    expect(Glob.matches(glob('!*.ts'), p('/a.ts'))).toBe(true)
+  })
+
+  describe('dotfiles', () => {
+    it.each([
+      ['**/*.ts', './.config/a.ts'],
+      ['**/*.ts', './a/.hidden.ts'],
+      ['*', './.env'],
+      ['?env', './.env'],
+    ])('%s skips %s unless dot is set', (pattern, path) => {
+      expect(Glob.matches(glob(pattern), p(path))).toBe(false)
+      expect(Glob.matches(glob(pattern), p(path), { dot: true })).toBe(true)
+    })
+
+    it('matches a literal leading dot without the option', () => {
+      expect(Glob.matches(glob('.*'), p('./.env'))).toBe(true)
+      expect(Glob.matches(glob('**/.config/*.ts'), p('./a/.config/b.ts'))).toBe(true)
+    })
+
+    it('never lets ** or a wildcard step over ..', () => {
+      expect(Glob.matches(glob('**/*.ts'), p('../a.ts'), { dot: true })).toBe(false)
+      expect(Glob.matches(glob('*/a.ts'), p('../a.ts'), { dot: true })).toBe(false)
+    })
+  })
+})
+
+describe('canMatchWithin', () => {
+  it.each([
+    ['src/**/*.ts', './src/', true],
+    ['src/**/*.ts', './src/a/b/', true],
+    ['src/**/*.ts', './node_modules/', false],
+    ['src/*.ts', './src/a/', false],
+    ['/srv/app/*', '/srv/', true],
+    ['/srv/app/*', './srv/', false],
+    ['**/*.ts', './.git/', false],
+    ['!src/**', './anything/', true],
+  ])('%s within %s → %s', (pattern, dir, expected) => {
+    expect(Glob.canMatchWithin(glob(pattern), p(dir) as Path.Dir)).toBe(expected)
+  })
+
+  it('enters dot-directories when dot is set', () => {
+    expect(Glob.canMatchWithin(glob('**/*.ts'), p('./.git/') as Path.Dir, { dot: true })).toBe(true)
+  })
+})
+
+describe('Schema', () => {
+  it.each([
+    'src/**/*.{ts,tsx}',
+    '!/a/[!b-d]?/',
+    '{a,b{c,d}}',
+    '\\*literal\\?',
+    '\\!not-negated',
+    '{a\\,b,c}',
+    '[\\]x]',
+  ])('round-trips %s', (pattern) => {
+    const decoded = S.decodeSync(Glob.Schema)(pattern)
+    expect(S.encodeSync(Glob.Schema)(decoded)).toBe(pattern)
+    expect(S.decodeSync(Glob.Schema)(S.encodeSync(Glob.Schema)(decoded))).toEqual(decoded)
+  })
+
+  it('encodes canonically, dropping a leading ./ and normalizing escapes', () => {
+    expect(S.encodeSync(Glob.Schema)(S.decodeSync(Glob.Schema)('./a/\\b'))).toBe('a/b')
+  })
+
+  it('fails decoding a malformed pattern', () => {
+    expect('a/[b').toFailDecoding(Glob.Schema, 'Expected a closing "]" at offset 2')
+  })
+})
@@ -0,0 +1,378 @@
+import { Effect, Option, Result, Schema as S, SchemaGetter, SchemaIssue } from 'effect'
+import type { Dir } from './models/Dir.js'
+import { File } from './models/File.js'
+import { FileName } from './models/FileName.js'
+import type { Path as PathSchema } from './models/Path.js'
+import { Rel } from './models/Rel.js'
+
+type Path = typeof PathSchema.Type
+
+const encodeFileName = S.encodeSync(FileName)
+
+/** A piece of one glob segment. */
+export type Part =
+  | { readonly _tag: 'Literal'; readonly text: string }
+  /** `*` — any run of characters within a segment. */
+  | { readonly _tag: 'Star' }
+  /** `?` — any one character. */
+  | { readonly _tag: 'Question' }
+  /** `[a-z_]`, `[!0-9]` — one character in (or, negated, not in) the ranges. */
+  | {
+      readonly _tag: 'Class'
+      readonly negated: boolean
+      readonly ranges: readonly (readonly [from: string, to: string])[]
+    }
+  /** `{ts,tsx}` — any one of the alternatives. */
+  | { readonly _tag: 'Alternation'; readonly alternatives: readonly (readonly Part[])[] }
+
+/** One `/`-separated step of a glob: `**` (any number of names), or a name pattern. */
+export type Segment =
+  | { readonly _tag: 'Globstar' }
+  | { readonly _tag: 'Name'; readonly parts: readonly Part[] }
+
+/** A parsed glob. */
+export interface Glob {
+  readonly _tag: 'Glob'
+  /** `!pattern` — matches what the pattern doesn't. */
+  readonly negated: boolean
+  /** `/pattern` — matches absolute paths; otherwise relative ones. */
+  readonly absolute: boolean
+  /** `pattern/` — matches directories only. */
+  readonly directoryOnly: boolean
+  readonly segments: readonly Segment[]
+}
+
+/** Options for {@link matches}. */
+export interface MatchOptions {
+  /** Let wildcards match names starting with `.` (by default only a literal `.` does, as in shells). */
+  readonly dot?: boolean | undefined
+}
+
+/** Thrown inside the parser to unwind to {@link parse} with a positioned issue. */
+class ParseFailure {
+  readonly issue: SchemaIssue.Issue
+  constructor(issue: SchemaIssue.Issue) {
+    this.issue = issue
+  }
+}
+
+const special = new Set(['*', '?', '[', ']', '{', '}', '\\'])
+
+const parseWith = (input: string): Glob => {
+  let index = 0
+  const fail = (expected: string, offset = index): never => {
+    throw new ParseFailure(
+      new SchemaIssue.InvalidValue(Option.some(input), {
+        message: `Expected ${expected} at offset ${offset}, received ${JSON.stringify(input)}`,
+        offset,
+      }),
+    )
+  }
+
+  /** Read an escaped or plain character. */
+  const char = (): string => {
+    if (input[index] === '\\') {
+      if (index + 1 >= input.length) fail('a character to escape after "\\"')
+      index += 2
+      return input[index - 1]!
+    }
+    return input[index++]!
+  }
+
+  const parseClass = (): Part => {
+    const start = index++
+    const negated = input[index] === '!' || input[index] === '^'
+    if (negated) index++
+    const ranges: Array<readonly [string, string]> = []
+    // A `]` right after the opening is a member, not the close.
+    let first = true
+    while (first || input[index] !== ']') {
+      if (index >= input.length) fail('a closing "]"', start)
+      if (input[index] === '/') fail('no "/" inside a character class')
+      first = false
+      const from = char()
+      if (input[index] === '-' && input[index + 1] !== ']' && index + 1 < input.length) {
+        index++
+        const offset = index
+        const to = char()
+        if (to < from) fail(`a range in order (${from}-${to} is reversed)`, offset)
+        ranges.push([from, to])
+      } else {
+        ranges.push([from, from])
+      }
+    }
+    index++
+    return { _tag: 'Class', negated, ranges }
+  }
+
+  /** Parse parts until a `/` or the end — or, inside braces, a `,` or `}`. */
+  const parseParts = (inBraces: boolean): Part[] => {
+    const parts: Part[] = []
+    const literal = (text: string) => {
+      const last = parts.at(-1)
+      if (last?._tag === 'Literal')
+        parts[parts.length - 1] = { _tag: 'Literal', text: last.text + text }
+      else parts.push({ _tag: 'Literal', text })
+    }
+
+    while (index < input.length) {
+      const c = input[index]!
+      if (c === '/') {
+        if (inBraces) fail('no "/" inside braces')
+        break
+      }
+      if (inBraces && (c === ',' || c === '}')) break
+      if (c === '*') {
+        if (input[index + 1] === '*') fail('"**" to stand alone as a whole segment')
+        index++
+        parts.push({ _tag: 'Star' })
+      } else if (c === '?') {
+        index++
+        parts.push({ _tag: 'Question' })
+      } else if (c === '[') {
+        parts.push(parseClass())
+      } else if (c === '{') {
+        const start = index++
+        const alternatives: Part[][] = [parseParts(true)]
+        while (input[index] === ',') {
+          index++
+          alternatives.push(parseParts(true))
+        }
+        if (input[index] !== '}') fail('a closing "}"', start)
+        index++
+        parts.push({ _tag: 'Alternation', alternatives })
+      } else {
+        literal(char())
+      }
+    }
+    return parts
+  }
+
+  const negated = input.startsWith('!')
+  if (negated) index++
+  const absolute = input[index] === '/'
+  if (absolute) index++
+  else if (input.startsWith('./', index)) index += 2
+  if (index >= input.length && !absolute) fail('a pattern')
+
+  const segments: Segment[] = []
+  let directoryOnly = false
+  while (index < input.length) {
+    const start = index
+    if (input.startsWith('**', index) && (index + 2 === input.length || input[index + 2] === '/')) {
+      index += 2
+      segments.push({ _tag: 'Globstar' })
+    } else {
+      const parts = parseParts(false)
+      if (parts.length === 0) fail('a non-empty segment')
+      if (parts.length === 1 && parts[0]!._tag === 'Literal' && parts[0]!.text === '.') {
+        fail('no "." segment', start)
+      }
+      segments.push({ _tag: 'Name', parts })
+    }
+    if (input[index] === '/') {
+      index++
+      if (index === input.length) directoryOnly = true
+    }
+  }
+
+  return { _tag: 'Glob', negated, absolute, directoryOnly, segments }
+}
+
+/**
+ * Parse a glob: `*`, `?`, `**` (as a whole segment), `[a-z]`/`[!a-z]` classes,
+ * `{a,b}` alternation (nestable, within a segment), `\` escapes, a leading `!`
+ * to negate, a leading `/` to anchor to absolute paths and a trailing `/` to
+ * match directories only. Malformed patterns fail with an issue whose `offset`
+ * annotation points at the problem.
+ *
+ * @example
+ * ```ts
+ * parse('src/**\/*.{ts,tsx}')  // Success(Glob)
+ * parse('src/[a-')            // Failure(InvalidValue: Expected a closing "]" at offset 4 …)
+ * ```
+ */
+export const parse = (input: string): Result.Result<Glob, SchemaIssue.Issue> => {
+  try {
+    return Result.succeed(parseWith(input))
+  } catch (error) {
+    if (error instanceof ParseFailure) return Result.fail(error.issue)
+    throw error
+  }
+}
+
+const escapeText = (text: string, inBraces: boolean): string =>
+  Array.from(text, (c) => (special.has(c) || (inBraces && c === ',') ? `\\${c}` : c)).join('')
+
+const escapeClassChar = (c: string): string => (/[\]\\\-!^]/.test(c) ? `\\${c}` : c)
+
+const formatParts = (parts: readonly Part[], inBraces: boolean): string =>
+  parts
+    .map((part) => {
+      switch (part._tag) {
+        case 'Literal':
+          return escapeText(part.text, inBraces)
+        case 'Star':
+          return '*'
+        case 'Question':
+          return '?'
+        case 'Class':
+          return `[${part.negated ? '!' : ''}${part.ranges
+            .map(([from, to]) =>
+              from === to
+                ? escapeClassChar(from)
+                : `${escapeClassChar(from)}-${escapeClassChar(to)}`,
+            )
+            .join('')}]`
+        case 'Alternation':
+          return `{${part.alternatives.map((alternative) => formatParts(alternative, true)).join(',')}}`
+      }
+    })
+    .join('')
+
+/**
+ * Write a glob back as a pattern string — canonical, so escapes are normalized
+ * and a leading `./` is dropped.
+ */
+export const format = (glob: Glob): string => {
+  const body = glob.segments
+    .map((segment) => (segment._tag === 'Globstar' ? '**' : formatParts(segment.parts, false)))
+    .join('/')
+  // A literal `!` at the very start would read back as negation.
+  const escaped = !glob.negated && !glob.absolute && body.startsWith('!') ? `\\${body}` : body
+  return `${glob.negated ? '!' : ''}${glob.absolute ? '/' : ''}${escaped}${
+    glob.directoryOnly && body !== '' ? '/' : ''
+  }`
+}
+
+const isGlob = (input: unknown): input is Glob =>
+  typeof input === 'object' && input !== null && (input as { _tag?: unknown })._tag === 'Glob'
+
+/**
+ * A glob pattern, as a `string` ⇄ {@link Glob} codec. Decoding parses (see
+ * {@link parse}); encoding {@link format}s.
+ *
+ * @example
+ * ```ts
+ * const glob = S.decodeSync(Glob.Schema)('**\/*.ts')
+ * ```
+ */
+export const Schema = S.String.pipe(
+  S.decodeTo(S.declare(isGlob, { identifier: 'Glob' }), {
+    decode: SchemaGetter.transformOrFail((input: string) => Effect.fromResult(parse(input))),
+    encode: SchemaGetter.transform(format),
+  }),
+)
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\/-]/g, '\\$&')
+
+const partsSource = (parts: readonly Part[]): string =>
+  parts
+    .map((part) => {
+      switch (part._tag) {
+        case 'Literal':
+          return escapeRegExp(part.text)
+        case 'Star':
+          return '.*'
+        case 'Question':
+          return '.'
+        case 'Class':
+          return `[${part.negated ? '^' : ''}${part.ranges
+            .map(([from, to]) =>
+              from === to ? escapeRegExp(from) : `${escapeRegExp(from)}-${escapeRegExp(to)}`,
+            )
+            .join('')}]`
+        case 'Alternation':
+          return `(?:${part.alternatives.map(partsSource).join('|')})`
+      }
+    })
+    .join('')
+
+const regexes = new WeakMap<Segment, { dot: RegExp; noDot: RegExp }>()
+
+/** A segment's regex. Wildcards never match `.`/`..`, nor (without `dot`) a leading `.`. */
+const regexOf = (segment: Segment & { _tag: 'Name' }, dot: boolean): RegExp => {
+  let cached = regexes.get(segment)
+  if (!cached) {
+    const source = partsSource(segment.parts)
+    const first = segment.parts[0]
+    const literalDot = first?._tag === 'Literal' && first.text.startsWith('.')
+    cached = {
+      dot: new RegExp(`^${literalDot ? '' : '(?!\\.\\.?$)'}${source}$`, 's'),
+      noDot: new RegExp(`^${literalDot ? '' : '(?!\\.)'}${source}$`, 's'),
+    }
+    regexes.set(segment, cached)
+  }
+  return dot ? cached.dot : cached.noDot
+}
+
+/** What `**` may step over: any name but `..`, and no dot-names unless `dot`. */
+const globstarTakes = (name: string, dot: boolean): boolean =>
+  name !== '..' && (dot ? name !== '.' : !name.startsWith('.'))
+
+/** The names a path is made of, in order — `..` for each `back` step, the file name last. */
+const namesOf = (path: Path): string[] => [
+  ...Array.from({ length: S.is(Rel)(path) ? path.back : 0 }, () => '..'),
+  ...path.segments,
+  ...(S.is(File)(path) ? [encodeFileName(path.fileName)] : []),
+]
+
+/**
+ * Match glob segments against names from the given positions. With `prefix`, running
+ * out of names while segments remain also counts — something deeper could match.
+ */
+const matchFrom = (
+  segments: readonly Segment[],
+  names: readonly string[],
+  dot: boolean,
+  prefix: boolean,
+): boolean => {
+  const failed = new Set<number>()
+  const go = (s: number, n: number): boolean => {
+    const key = s * (names.length + 1) + n
+    if (failed.has(key)) return false
+    const segment = segments[s]
+    const result =
+      n === names.length
+        ? prefix
+          ? segment !== undefined
+          : segments.slice(s).every((rest) => rest._tag === 'Globstar')
+        : segment === undefined
+          ? false
+          : segment._tag === 'Globstar'
+            ? go(s + 1, n) || (globstarTakes(names[n]!, dot) && go(s, n + 1))
+            : regexOf(segment, dot).test(names[n]!) && go(s + 1, n + 1)
+    if (!result) failed.add(key)
+    return result
+  }
+  return go(0, 0)
+}
+
+/**
+ * Whether `path` matches `glob`. Absolute globs match absolute paths and relative
+ * globs relative ones (a path's `back` steps match literal `..` segments); a
+ * trailing `/` restricts the match to directories.
+ *
+ * @example
+ * ```ts
+ * matches(glob('src/**\/*.ts'), relFile('./src/a/b.ts'))  // true
+ * matches(glob('*.ts'), relFile('./.eslintrc.ts'))          // false — use { dot: true }
+ * ```
+ */
+export const matches = (glob: Glob, path: Path, options?: MatchOptions): boolean => {
+  const positive =
+    glob.absolute !== S.is(Rel)(path) &&
+    !(glob.directoryOnly && S.is(File)(path)) &&
+    matchFrom(glob.segments, namesOf(path), options?.dot ?? false, false)
+  return glob.negated ? !positive : positive
+}
+
+/**
+ * Whether anything inside the directory `dir` could match `glob` — so a walk can
+ * skip directories that can't (`src/**` never needs to enter `node_modules/`).
+ * Always true for negated globs.
+ */
+export const canMatchWithin = (glob: Glob, dir: Dir, options?: MatchOptions): boolean =>
+  glob.negated ||
+  (glob.absolute !== S.is(Rel)(dir) &&
+    matchFrom(glob.segments, namesOf(dir), options?.dot ?? false, true))
@@ -0,0 +1,66 @@
+import { describe, expect, it } from '@kitz/vitest'
+import { Result, Schema } from 'effect'
+import { Path } from './_.js'
+
+const ignore = (content: string, base?: Path.RelDir) =>
+  Result.getOrThrow(Path.Ignore.parse(content, base ? { base } : {}))
+
+const rel = (input: string) => Schema.decodeSync(Path.Rel)(input)
+
+describe('isIgnored', () => {
+  it.each([
+    ['node_modules/', './node_modules/a/index.js', true],
+    ['node_modules/', './node_modules', false],
+    ['*.log', './deep/dir/debug.log', true],
+    ['/build', './build/out.js', true],
+    ['/build', './src/build/out.js', false],
+    ['docs/*.md', './docs/a.md', true],
+    ['docs/*.md', './docs/sub/a.md', false],
+    ['# comment\n\n', './anything', false],
+    ['\\#literal', './#literal', true],
+  ])('%j → %s ignored: %s', (content, path, expected) => {
+    expect(Path.Ignore.isIgnored(ignore(content), rel(path))).toBe(expected)
+  })
+
+  it('lets a later negation re-include a file', () => {
+    const rules = ignore('*.log\n!keep.log')
+    expect(Path.Ignore.isIgnored(rules, rel('./a.log'))).toBe(true)
+    expect(Path.Ignore.isIgnored(rules, rel('./keep.log'))).toBe(false)
+  })
+
+  it('never re-includes inside an ignored directory', () => {
+    const rules = ignore('logs/\n!logs/keep.log')
+    expect(Path.Ignore.isIgnored(rules, rel('./logs/keep.log'))).toBe(true)
+  })
+
+  it('matches only the contents for dir/**, so they can be re-included', () => {
+    const rules = ignore('foo/**\n!foo/keep.txt')
+    expect(Path.Ignore.isIgnored(rules, rel('./foo/'))).toBe(false)
+    expect(Path.Ignore.isIgnored(rules, rel('./foo/drop.txt'))).toBe(true)
+    expect(Path.Ignore.isIgnored(rules, rel('./foo/a/b.txt'))).toBe(true)
+    expect(Path.Ignore.isIgnored(rules, rel('./foo/keep.txt'))).toBe(false)
+  })
+
+  it('scopes rules to the directory of their file', () => {
+    const rules = Path.Ignore.concat(
+      ignore('*.tmp'),
+      ignore('!a.tmp', rel('./pkg/') as Path.RelDir),
+    )
+    expect(Path.Ignore.isIgnored(rules, rel('./pkg/a.tmp'))).toBe(false)
+    expect(Path.Ignore.isIgnored(rules, rel('./a.tmp'))).toBe(true)
+  })
+})
+
+describe('parse', () => {
+  it('fails on an invalid pattern with its line', () => {
+    const parsed = Path.Ignore.parse('ok\n[a-')
+    expect(Result.isFailure(parsed) && parsed.failure.toString()).toContain('line 2')
+  })
+
+  it('parseLenient skips invalid lines', () => {
+    expect(Path.Ignore.parseLenient('ok\n[a-\n*.log').rules.map((rule) => rule.source)).toEqual([
+      'ok',
+      '*.log',
+    ])
+  })
+})
@@ -0,0 +1,196 @@
+import { Option, Result, Schema as S, SchemaIssue } from 'effect'
+import * as Glob from './glob.js'
+import { File } from './models/File.js'
+import { RelDir } from './models/RelDir.js'
+import { RelFile } from './models/RelFile.js'
+
+const encodeDir = S.encodeSync(RelDir)
+
+/** One gitignore line, compiled. */
+export interface Rule {
+  /** The line as written. */
+  readonly source: string
+  /** 1-based line number in the file that defined the rule. */
+  readonly line: number
+  /** The directory holding that file, relative to the walk's root — the rule applies beneath it. */
+  readonly base: RelDir
+  /** `!pattern` — re-includes what earlier rules ignored. */
+  readonly negated: boolean
+  /** The pattern as a glob relative to `base` (unanchored patterns become `**\/pattern`). */
+  readonly glob: Glob.Glob
+}
+
+/** Ignore rules from one or more gitignore files, in precedence order (later wins). */
+export interface Ignore {
+  readonly _tag: 'Ignore'
+  readonly rules: readonly Rule[]
+}
+
+/** Options for {@link parse}. */
+export interface ParseOptions {
+  /** Where the gitignore file lives, relative to the root paths are tested against. Defaults to `./`. */
+  readonly base?: RelDir | undefined
+}
+
+/** No rules — nothing is ignored. */
+export const empty: Ignore = { _tag: 'Ignore', rules: [] }
+
+/**
+ * Rewrite a gitignore pattern body as glob syntax: braces are literal in
+ * gitignore, and a `**` that isn't a whole segment is just `*`.
+ */
+const toGlobSyntax = (body: string): string => {
+  let out = ''
+  for (let index = 0; index < body.length; index++) {
+    const c = body[index]!
+    if (c === '\\') {
+      out += body.slice(index, index + 2)
+      index++
+    } else if (c === '{' || c === '}') {
+      out += `\\${c}`
+    } else if (c === '*') {
+      let end = index
+      while (body[end] === '*') end++
+      const whole =
+        (index === 0 || body[index - 1] === '/') && (end === body.length || body[end] === '/')
+      out += whole && end - index >= 2 ? '**' : '*'
+      index = end - 1
+    } else {
+      out += c
+    }
+  }
+  return out
+}
+
+/** Trailing spaces are dropped unless escaped with `\`. */
+const trimTrailing = (line: string): string => {
+  let end = line.length
+  while (end > 0 && line[end - 1] === ' ' && line[end - 2] !== '\\') end--
+  return line.slice(0, end)
+}
+
+/** Compile one line, or `undefined` for blanks and comments. */
+const ruleOf = (
+  source: string,
+  line: number,
+  base: RelDir,
+): Result.Result<Rule | undefined, SchemaIssue.Issue> => {
+  const text = trimTrailing(source)
+  if (text === '' || text.startsWith('#')) return Result.succeed(undefined)
+
+  const negated = text.startsWith('!')
+  const body = negated ? text.slice(1) : text
+  // A slash anywhere but the end anchors the pattern to `base`.
+  const anchored = body.replace(/\/$/, '').includes('/')
+  const pattern = anchored ? body.replace(/^\//, '') : `**/${body}`
+
+  // A trailing `/**` matches what's inside the directory, not the directory itself.
+  const syntax = toGlobSyntax(pattern)
+  return Result.map(Glob.parse(syntax.endsWith('/**') ? `${syntax}/*` : syntax), (glob) => ({
+    source,
+    line,
+    base,
+    negated,
+    glob,
+  }))
+}
+
+/**
+ * Parse a gitignore file into rules: `#` comments, `!` negation, a leading or
+ * inner `/` anchoring to the file's directory, a trailing `/` for directories only,
+ * `*`/`?`/`**`/`[…]` wildcards and `\` escapes. An invalid pattern fails with an
+ * issue carrying its `line`.
+ *
+ * @example
+ * ```ts
+ * parse('node_modules/\n/build\n*.log\n!keep.log')  // Success(Ignore)
+ * parse('docs/', { base: relDir('./packages/a/') })  // rules from packages/a/.gitignore
+ * ```
+ */
+export const parse = (
+  content: string,
+  options?: ParseOptions,
+): Result.Result<Ignore, SchemaIssue.Issue> => {
+  const base = options?.base ?? RelDir.make({ back: 0, segments: [] })
+  const rules: Rule[] = []
+  for (const [index, source] of content.split(/\r?\n/).entries()) {
+    const rule = ruleOf(source, index + 1, base)
+    if (Result.isFailure(rule)) {
+      return Result.fail(
+        new SchemaIssue.InvalidValue(Option.some(content), {
+          message: `Expected a valid pattern on line ${index + 1} of the ignore file at ${encodeDir(base)}, received ${JSON.stringify(source)}`,
+          line: index + 1,
+        }),
+      )
+    }
+    if (rule.success) rules.push(rule.success)
+  }
+  return Result.succeed({ _tag: 'Ignore', rules })
+}
+
+/**
+ * Like {@link parse}, but lines with an invalid pattern are skipped — as git
+ * itself does, which is what a walk reading arbitrary repositories wants.
+ */
+export const parseLenient = (content: string, options?: ParseOptions): Ignore => {
+  const base = options?.base ?? RelDir.make({ back: 0, segments: [] })
+  const rules = content.split(/\r?\n/).flatMap((source, index) =>
+    Result.match(ruleOf(source, index + 1, base), {
+      onFailure: () => [],
+      onSuccess: (rule) => (rule ? [rule] : []),
+    }),
+  )
+  return { _tag: 'Ignore', rules }
+}
+
+/**
+ * Combine rule sets; rules of later ones take precedence — so append a nested
+ * directory's gitignore after its parents'.
+ */
+export const concat = (...ignores: Ignore[]): Ignore => ({
+  _tag: 'Ignore',
+  rules: ignores.flatMap((ignore) => ignore.rules),
+})
+
+/** `path` relative to `base`, if it lies beneath it. */
+const within = (base: RelDir, path: RelFile | RelDir): RelFile | RelDir | undefined => {
+  if (path.back !== base.back) return undefined
+  if (!base.segments.every((segment, index) => path.segments[index] === segment)) return undefined
+  if (path.segments.length < base.segments.length) return undefined
+  const segments = path.segments.slice(base.segments.length)
+  return S.is(File)(path)
+    ? RelFile.make({ back: 0, segments, fileName: path.fileName })
+    : RelDir.make({ back: 0, segments })
+}
+
+/** The verdict of the last rule matching `path` itself, ignoring its ancestors. */
+const verdict = (ignore: Ignore, path: RelFile | RelDir): boolean => {
+  let ignored = false
+  for (const rule of ignore.rules) {
+    const local = within(rule.base, path)
+    if (local && (local.segments.length > 0 || S.is(File)(local))) {
+      if (Glob.matches(rule.glob, local, { dot: true })) ignored = !rule.negated
+    }
+  }
+  return ignored
+}
+
+/**
+ * Whether `path` (relative to the same root as the rules' bases) is ignored: the
+ * last matching rule decides, and — as in git — nothing inside an ignored
+ * directory can be re-included.
+ *
+ * @example
+ * ```ts
+ * isIgnored(ignore, relFile('./node_modules/a/index.js'))  // true
+ * isIgnored(ignore, relFile('./logs/keep.log'))            // false, with `!keep.log`
+ * ```
+ */
+export const isIgnored = (ignore: Ignore, path: RelFile | RelDir): boolean => {
+  const depth = S.is(File)(path) ? path.segments.length : path.segments.length - 1
+  for (let length = 1; length <= depth; length++) {
+    const ancestor = RelDir.make({ back: path.back, segments: path.segments.slice(0, length) })
+    if (verdict(ignore, ancestor)) return true
+  }
+  return verdict(ignore, path)
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from '@kitz/vitest'
+import { Path } from './_.js'
+
+describe('join', () => {
+  it.each([
+    ['/a/b/', '../c.ts', '/a/c.ts'],
+    ['/a/', './b/', '/a/b/'],
+    ['/a/', '/b/c.ts', '/a/b/c.ts'],
+    ['/a/b/', '../../', '/'],
+    ['./a/', '../../b/', '../b/'],
+    ['../a/', './b.ts', '../a/b.ts'],
+    ['./', '../../x/', '../../x/'],
+    ['./a/', '/b/', './a/b/'],
+  ] as const)('%s + %s → %s', (base, other, expected) => {
+    expect(Path.join(Path.fromLiteral(base), Path.fromLiteral(other))).toSucceedWith(
+      Path.fromLiteral(expected),
+    )
+  })
+
+  it('fails climbing out of an absolute base above the root', () => {
+    expect(Path.join(Path.fromLiteral('/a/'), Path.fromLiteral('../../../'))).toFailWithTag(
+      'AboveRootError',
+    )
+  })
+})
+
+describe('resolve', () => {
+  it('returns an absolute path as is', () => {
+    const abs = Path.fromLiteral('/b/c.ts')
+    expect(Path.resolve(Path.fromLiteral('/a/'), abs)).toSucceedWith(abs)
+  })
+
+  it('joins a relative path onto the base', () => {
+    expect(Path.resolve(Path.fromLiteral('/a/b/'), Path.fromLiteral('../c/'))).toSucceedWith(
+      Path.fromLiteral('/a/c/'),
+    )
+    expect(Path.resolve(Path.fromLiteral('./a/'), Path.fromLiteral('../../b.ts'))).toSucceedWith(
+      Path.fromLiteral('../b.ts'),
+    )
+  })
+
+  it('fails above the root like join', () => {
+    expect(Path.resolve(Path.fromLiteral('/'), Path.fromLiteral('../x.ts'))).toFailWithTag(
+      'AboveRootError',
+    )
+  })
+})
@@ -0,0 +1,110 @@
+import { Result, Schema as S } from 'effect'
+import { appendWithBack } from './analyzer.js'
+import { AboveRootError } from './errors.js'
+import { Abs } from './models/Abs.js'
+import { AbsDir } from './models/AbsDir.js'
+import { AbsFile } from './models/AbsFile.js'
+import type { Dir } from './models/Dir.js'
+import { File } from './models/File.js'
+import type { Path as PathSchema } from './models/Path.js'
+import { Rel } from './models/Rel.js'
+import { RelDir } from './models/RelDir.js'
+import { RelFile } from './models/RelFile.js'
+
+type Path = typeof PathSchema.Type
+
+/**
+ * The path kind produced by joining `Other` onto a `Base` directory: the base
+ * decides absoluteness, the joined path decides file vs directory.
+ *
+ * `AbsDir + RelFile → AbsFile`, `RelDir + RelDir → RelDir`, `AbsDir + AbsFile → AbsFile`.
+ */
+export type Joined<Base extends Dir, Other extends Path> = Other extends File
+  ? Base extends AbsDir
+    ? AbsFile
+    : RelFile
+  : Base extends AbsDir
+    ? AbsDir
+    : RelDir
+
+/** The error a join can fail with: only a relative path climbing out of an absolute base can escape `/`. */
+export type JoinError<Base extends Dir, Other extends Path> = Base extends AbsDir
+  ? Other extends Rel
+    ? AboveRootError
+    : never
+  : never
+
+/** The path kind produced by resolving `Other` against a `Base` directory (absolute paths win). */
+export type Resolved<Base extends Dir, Other extends Path> = Other extends Abs
+  ? Other
+  : Joined<Base, Other>
+
+/** The error a resolve can fail with (see {@link JoinError}). */
+export type ResolveError<Base extends Dir, Other extends Path> = Other extends Abs
+  ? never
+  : JoinError<Base, Other>
+
+const backOf = (path: Path): number => (S.is(Rel)(path) ? path.back : 0)
+
+/**
+ * Append `other` onto the directory `base`.
+ *
+ * A relative `other` first climbs its `back` steps out of `base`; an absolute
+ * `other` is rebased under `base` (its leading `/` is dropped). The result kind
+ * follows from the inputs (see {@link Joined}). Climbing above `/` fails with
+ * {@link AboveRootError}; a relative base instead accumulates the excess `back`.
+ *
+ * @example
+ * ```ts
+ * join(absDir('/a/b/'), relFile('../c.ts'))   // Success(AbsFile /a/c.ts)
+ * join(relDir('./a/'), relDir('../../b/'))    // Success(RelDir ../b/)
+ * join(absDir('/a/'), absFile('/b/c.ts'))     // Success(AbsFile /a/b/c.ts)
+ * join(absDir('/a/'), relDir('../../'))       // Failure(AboveRootError)
+ * ```
+ */
+export const join = <Base extends Dir, Other extends Path>(
+  base: Base,
+  other: Other,
+): Result.Result<Joined<Base, Other>, JoinError<Base, Other>> => {
+  const { back, segments } = appendWithBack(
+    { back: backOf(base), segments: base.segments },
+    { back: backOf(other), segments: other.segments },
+  )
+
+  if (S.is(AbsDir)(base)) {
+    if (back > 0) {
+      return Result.fail(new AboveRootError({ base, back: backOf(other) })) as Result.Result<
+        never,
+        JoinError<Base, Other>
+      >
+    }
+    const joined = S.is(File)(other)
+      ? AbsFile.make({ segments, fileName: other.fileName })
+      : AbsDir.make({ segments })
+    return Result.succeed(joined as Joined<Base, Other>)
+  }
+
+  const joined = S.is(File)(other)
+    ? RelFile.make({ back, segments, fileName: other.fileName })
+    : RelDir.make({ back, segments })
+  return Result.succeed(joined as Joined<Base, Other>)
+}
+
+/**
+ * Resolve `other` against the directory `base`, like a shell `cd` followed by a
+ * lookup: an absolute `other` is returned as is, a relative one is {@link join}ed.
+ *
+ * @example
+ * ```ts
+ * resolve(absDir('/a/'), relFile('./b.ts'))    // Success(AbsFile /a/b.ts)
+ * resolve(absDir('/a/'), absFile('/b/c.ts'))   // Success(AbsFile /b/c.ts)
+ * ```
+ */
+export const resolve = <Base extends Dir, Other extends Path>(
+  base: Base,
+  other: Other,
+): Result.Result<Resolved<Base, Other>, ResolveError<Base, Other>> =>
+  (S.is(Abs)(other) ? Result.succeed(other) : join(base, other)) as Result.Result<
+    Resolved<Base, Other>,
+    ResolveError<Base, Other>
+  >
@@ -0,0 +1,80 @@
+import { describe, expect, expectTypeOf, it } from '@kitz/vitest'
+import { Schema } from 'effect'
+import { Path } from './_.js'
+
+describe('AnalyzeLiteral', () => {
+  it('tells directories from files', () => {
+    expectTypeOf<Path.AnalyzeLiteral<'/src/'>>().toEqualTypeOf<{
+      _tag: 'AbsDir'
+      back: 0
+      segments: ['src']
+    }>()
+    expectTypeOf<Path.AnalyzeLiteral<'/src/index.ts'>>().toEqualTypeOf<{
+      _tag: 'AbsFile'
+      back: 0
+      segments: ['src']
+      fileName: 'index.ts'
+    }>()
+    expectTypeOf<Path.AnalyzeLiteral<'/'>>().toEqualTypeOf<{
+      _tag: 'AbsDir'
+      back: 0
+      segments: []
+    }>()
+    expectTypeOf<Path.AnalyzeLiteral<'./Makefile'>['_tag']>().toEqualTypeOf<'RelDir'>()
+    expectTypeOf<Path.AnalyzeLiteral<'./a/.gitignore'>['_tag']>().toEqualTypeOf<'RelDir'>()
+    expectTypeOf<Path.AnalyzeLiteral<'./a/.env.local'>['_tag']>().toEqualTypeOf<'RelFile'>()
+  })
+
+  it('counts leading .. into back and folds inner ones', () => {
+    expectTypeOf<Path.AnalyzeLiteral<'../../docs/'>>().toEqualTypeOf<{
+      _tag: 'RelDir'
+      back: 2
+      segments: ['docs']
+    }>()
+    expectTypeOf<Path.AnalyzeLiteral<'./a/b/../c.ts'>>().toEqualTypeOf<{
+      _tag: 'RelFile'
+      back: 0
+      segments: ['a']
+      fileName: 'c.ts'
+    }>()
+    expectTypeOf<Path.AnalyzeLiteral<'/../a/'>>().toEqualTypeOf<{
+      _tag: 'AbsDir'
+      back: 0
+      segments: ['a']
+    }>()
+  })
+
+  it('drops . segments', () => {
+    expectTypeOf<Path.AnalyzeLiteral<'./'>>().toEqualTypeOf<{
+      _tag: 'RelDir'
+      back: 0
+      segments: []
+    }>()
+    expectTypeOf<Path.AnalyzeLiteral<'./a/./b/'>>().toEqualTypeOf<{
+      _tag: 'RelDir'
+      back: 0
+      segments: ['a', 'b']
+    }>()
+  })
+})
+
+describe('fromLiteral', () => {
+  it('types the value by its variant and narrows segments and back', () => {
+    expectTypeOf(Path.fromLiteral('/src/index.ts')).toEqualTypeOf<
+      Path.AbsFile & { readonly segments: ['src'] }
+    >()
+    expectTypeOf(Path.fromLiteral('../a/')).toEqualTypeOf<
+      Path.RelDir & { readonly back: 1; readonly segments: ['a'] }
+    >()
+  })
+
+  it('widens a non-literal string to any path', () => {
+    const input: string = '/a/'
+    expectTypeOf(Path.fromLiteral(input)).toEqualTypeOf<typeof Path.Schema.Type>()
+  })
+
+  it('decodes to the value the type promises', () => {
+    expect(Path.fromLiteral('../../docs/')).toEqual(Schema.decodeSync(Path.RelDir)('../../docs/'))
+    expect(Path.fromLiteral('./a/b/../c.ts')).toEqual(Schema.decodeSync(Path.RelFile)('./a/c.ts'))
+  })
+})
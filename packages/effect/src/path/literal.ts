@@ -0,0 +1,132 @@
+import { Schema as S } from 'effect'
+import type { String } from '#string'
+import { analyze } from './analyzer.js'
+import { AbsDir } from './models/AbsDir.js'
+import { AbsFile } from './models/AbsFile.js'
+import type { Path as PathSchema } from './models/Path.js'
+import { RelDir } from './models/RelDir.js'
+import { RelFile } from './models/RelFile.js'
+
+type Path = typeof PathSchema.Type
+
+/**
+ * A path literal analyzed at the type level — the compile-time mirror of
+ * {@link analyze}: the variant tag, the parent-traversal count, the named
+ * segments, and (for files) the filename.
+ *
+ * @example
+ * ```ts
+ * type A = AnalyzeLiteral<'/src/index.ts'>  // { _tag: 'AbsFile'; back: 0; segments: ['src']; fileName: 'index.ts' }
+ * type B = AnalyzeLiteral<'../../docs/'>    // { _tag: 'RelDir'; back: 2; segments: ['docs'] }
+ * ```
+ */
+export type AnalyzeLiteral<Input extends string> = Input extends '/'
+  ? { _tag: 'AbsDir'; back: 0; segments: [] }
+  : Build<
+      String.StartsWith<Input, '/'>,
+      IsDir<Input>,
+      Fold<String.Split<Input, '/'>, [], String.StartsWith<Input, '/'>>
+    >
+
+/**
+ * The path value a literal decodes to: its variant, narrowed with the literal's
+ * segments (and `back` count for relative paths). A non-literal `string` widens
+ * to the full path union.
+ *
+ * @example
+ * ```ts
+ * type F = FromLiteral<'/src/index.ts'>  // AbsFile & { readonly segments: ['src'] }
+ * type D = FromLiteral<'../a/'>          // RelDir & { readonly back: 1; readonly segments: ['a'] }
+ * ```
+ */
+export type FromLiteral<Input extends string> = string extends Input
+  ? Path
+  : Narrow<AnalyzeLiteral<Input>>
+
+type Narrow<A> = A extends { _tag: infer Tag; back: infer Back; segments: infer Segments }
+  ? Tag extends 'AbsFile'
+    ? AbsFile & { readonly segments: Segments }
+    : Tag extends 'AbsDir'
+      ? AbsDir & { readonly segments: Segments }
+      : Tag extends 'RelFile'
+        ? RelFile & { readonly back: Back; readonly segments: Segments }
+        : RelDir & { readonly back: Back; readonly segments: Segments }
+  : never
+
+/** Directory iff: trailing slash, a bare here/back reference, or no extension on the last segment. */
+type IsDir<Input extends string> = Input extends '' | '.' | './' | '..' | '../'
+  ? true
+  : String.EndsWith<Input, '/'> extends true
+    ? true
+    : HasExtension<String.LastSegment<Input>> extends true
+      ? false
+      : true
+
+/** A dot that's not at index 0 marks an extension (`.gitignore` has none, `a.b` and `.a.b` do). */
+type HasExtension<Name extends string> = Name extends `${infer Head}.${infer Rest}`
+  ? Head extends ''
+    ? Rest extends `${string}.${string}`
+      ? true
+      : false
+    : true
+  : false
+
+/**
+ * Resolve `..` references against the preceding segments; excess ones count up
+ * `back` (as a tuple, for arithmetic) — unless the path is absolute, where they
+ * are dropped at the root.
+ */
+type Fold<
+  Segments extends string[],
+  Back extends unknown[],
+  IsAbsolute extends boolean,
+  Acc extends string[] = [],
+> = Segments extends [infer Head extends string, ...infer Tail extends string[]]
+  ? Head extends '..'
+    ? Acc extends [...infer Init extends string[], string]
+      ? Fold<Tail, Back, IsAbsolute, Init>
+      : Fold<Tail, IsAbsolute extends true ? Back : [...Back, unknown], IsAbsolute, Acc>
+    : Fold<Tail, Back, IsAbsolute, [...Acc, Head]>
+  : { back: Back['length']; segments: Acc }
+
+type Build<
+  IsAbsolute extends boolean,
+  IsDirectory extends boolean,
+  Folded extends { back: number; segments: string[] },
+> = IsDirectory extends true
+  ? IsAbsolute extends true
+    ? { _tag: 'AbsDir'; back: 0; segments: Folded['segments'] }
+    : { _tag: 'RelDir'; back: Folded['back']; segments: Folded['segments'] }
+  : Folded['segments'] extends [...infer Init extends string[], infer Last extends string]
+    ? IsAbsolute extends true
+      ? { _tag: 'AbsFile'; back: 0; segments: Init; fileName: Last }
+      : { _tag: 'RelFile'; back: Folded['back']; segments: Init; fileName: Last }
+    : never
+
+/**
+ * Decode a path literal into the variant its shape statically implies, so
+ * `fromLiteral('/src/index.ts')` is typed as an `AbsFile` (see {@link FromLiteral}).
+ * The runtime decode goes through the variant's codec, so invalid input throws
+ * the codec's schema error.
+ *
+ * Like the analyzer's default, an extension-less dotfile (`/a/.gitignore`) is a
+ * directory; decode it with the `AbsFile`/`RelFile` codec to read it as a file.
+ *
+ * @example
+ * ```ts
+ * const file = fromLiteral('/src/index.ts')  // AbsFile & { readonly segments: ['src'] }
+ * const dir = fromLiteral('../docs/')        // RelDir & { readonly back: 1; readonly segments: ['docs'] }
+ * ```
+ */
+export const fromLiteral = <const Input extends string>(input: Input): FromLiteral<Input> => {
+  const analysis = analyze(input)
+  const decoded =
+    analysis._tag === 'file'
+      ? analysis.isPathAbsolute
+        ? S.decodeSync(AbsFile)(input)
+        : S.decodeSync(RelFile)(input)
+      : analysis.isPathAbsolute
+        ? S.decodeSync(AbsDir)(input)
+        : S.decodeSync(RelDir)(input)
+  return decoded as FromLiteral<Input>
+}
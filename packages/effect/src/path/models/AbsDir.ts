@@ -1,5 +1,7 @@
 import { Effect, flow, Result, Schema as S, SchemaGetter } from 'effect'
 import { analyzeDir, format } from '../analyzer.js'
+import { fromFileUrl } from '../fileUrl.js'
+import { strict } from '../strict.js'
 import { Segment } from './segment.js'
 
 /**
@@ -38,7 +40,30 @@ export class AbsDir_ extends S.asClass(
       ),
     }),
   ),
-) {}
+) {
+  /**
+   * `file://` URL ⇄ `AbsDir` codec, composed onto this string codec. Percent-decodes
+   * segments; rejects non-`file:` schemes and non-local hosts.
+   *
+   * @example
+   * ```ts
+   * const dir = S.decodeSync(AbsDir.FromFileUrl)('file:///home/user/')
+   * ```
+   */
+  static readonly FromFileUrl = fromFileUrl(AbsDir_)
+
+  /**
+   * Strict `string` ⇄ `AbsDir` codec: decoding rejects input the analyzer would
+   * normalize (`//`, `.`, foldable `..`), pointing at the offending segment.
+   *
+   * @example
+   * ```ts
+   * S.decodeSync(AbsDir.Strict)('/home/user/')    // ok
+   * S.decodeSync(AbsDir.Strict)('/home/./user/')  // throws
+   * ```
+   */
+  static readonly Strict = strict(AbsDir_)
+}
 
 export const AbsDir = AbsDir_
 export type AbsDir = typeof AbsDir_.Type
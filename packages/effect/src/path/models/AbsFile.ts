@@ -1,5 +1,7 @@
 import { Effect, flow, Result, Schema as S, SchemaGetter } from 'effect'
 import { analyzeFile, format } from '../analyzer.js'
+import { fromFileUrl } from '../fileUrl.js'
+import { strict } from '../strict.js'
 import { FileName } from './FileName.js'
 import { Segment } from './segment.js'
 
@@ -39,7 +41,30 @@ export class AbsFile_ extends S.asClass(
       ),
     }),
   ),
-) {}
+) {
+  /**
+   * `file://` URL ⇄ `AbsFile` codec, composed onto this string codec. Percent-decodes
+   * segments; rejects non-`file:` schemes and non-local hosts.
+   *
+   * @example
+   * ```ts
+   * const file = S.decodeSync(AbsFile.FromFileUrl)('file:///home/user/file.txt')
+   * ```
+   */
+  static readonly FromFileUrl = fromFileUrl(AbsFile_)
+
+  /**
+   * Strict `string` ⇄ `AbsFile` codec: decoding rejects input the analyzer would
+   * normalize (`//`, `.`, foldable `..`), pointing at the offending segment.
+   *
+   * @example
+   * ```ts
+   * S.decodeSync(AbsFile.Strict)('/home/user/notes.md')    // ok
+   * S.decodeSync(AbsFile.Strict)('/home//user/notes.md')  // throws
+   * ```
+   */
+  static readonly Strict = strict(AbsFile_)
+}
 
 export const AbsFile = AbsFile_
 export type AbsFile = typeof AbsFile_.Type
@@ -1,4 +1,4 @@
-import { Schema as S } from 'effect'
+import { Context, Layer, Option, Schema as S } from 'effect'
 
 /**
  * A file extension starting with a dot (e.g. `.ts`). POSIX-compliant: any
@@ -10,3 +10,177 @@ export const Extension = S.String.pipe(
 )
 
 export type Extension = typeof Extension.Type
+
+/** What the registry knows about an extension. */
+export interface Info {
+  /** The media type of files with this extension (e.g. `text/typescript`). */
+  readonly mime: string
+  /** The editor language identifier (e.g. `typescriptreact`), when it is source text. */
+  readonly language?: string | undefined
+}
+
+/**
+ * Extensions mapped to what is known about them. Multi-dot keys are compound
+ * extensions. Registries are values: {@link extend} returns a new one.
+ */
+export type Registry = ReadonlyMap<Extension, Info>
+
+const typescript: Info = { mime: 'text/typescript', language: 'typescript' }
+const typescriptReact: Info = { mime: 'text/tsx', language: 'typescriptreact' }
+const javascript: Info = { mime: 'text/javascript', language: 'javascript' }
+const javascriptReact: Info = { mime: 'text/jsx', language: 'javascriptreact' }
+const gzip: Info = { mime: 'application/gzip' }
+
+/**
+ * The built-in registry: common source, data, media and archive extensions, plus
+ * the compound ones the toolchain distinguishes — declaration files (`.d.ts`),
+ * test files (`.test.ts`, `.spec.ts`) and tarballs (`.tar.gz`).
+ */
+export const defaults: Registry = new Map<Extension, Info>([
+  ['.ts', typescript],
+  ['.mts', typescript],
+  ['.cts', typescript],
+  ['.tsx', typescriptReact],
+  ['.d.ts', typescript],
+  ['.d.mts', typescript],
+  ['.d.cts', typescript],
+  ['.test.ts', typescript],
+  ['.spec.ts', typescript],
+  ['.test-d.ts', typescript],
+  ['.test.tsx', typescriptReact],
+  ['.spec.tsx', typescriptReact],
+  ['.js', javascript],
+  ['.mjs', javascript],
+  ['.cjs', javascript],
+  ['.jsx', javascriptReact],
+  ['.test.js', javascript],
+  ['.spec.js', javascript],
+  ['.json', { mime: 'application/json', language: 'json' }],
+  ['.jsonc', { mime: 'application/json', language: 'jsonc' }],
+  ['.md', { mime: 'text/markdown', language: 'markdown' }],
+  ['.html', { mime: 'text/html', language: 'html' }],
+  ['.css', { mime: 'text/css', language: 'css' }],
+  ['.yaml', { mime: 'application/yaml', language: 'yaml' }],
+  ['.yml', { mime: 'application/yaml', language: 'yaml' }],
+  ['.toml', { mime: 'application/toml', language: 'toml' }],
+  ['.txt', { mime: 'text/plain', language: 'plaintext' }],
+  ['.sh', { mime: 'application/x-sh', language: 'shellscript' }],
+  ['.svg', { mime: 'image/svg+xml', language: 'xml' }],
+  ['.png', { mime: 'image/png' }],
+  ['.jpg', { mime: 'image/jpeg' }],
+  ['.jpeg', { mime: 'image/jpeg' }],
+  ['.gif', { mime: 'image/gif' }],
+  ['.webp', { mime: 'image/webp' }],
+  ['.pdf', { mime: 'application/pdf' }],
+  ['.wasm', { mime: 'application/wasm' }],
+  ['.zip', { mime: 'application/zip' }],
+  ['.tar', { mime: 'application/x-tar' }],
+  ['.gz', gzip],
+  ['.tgz', gzip],
+  ['.tar.gz', gzip],
+])
+
+/**
+ * The registry file-name codecs split extensions against — {@link defaults} unless
+ * {@link layer} provides another. `FileName` reads it while decoding, so every
+ * file codec built on it (`AbsFile`, `RelFile`, `Path.Schema`, …) follows suit.
+ *
+ * @example
+ * ```ts
+ * S.decodeEffect(AbsFile)('/ui/Button.stories.tsx').pipe(Effect.provide(layer(extensions)))
+ * // AbsFile with stem 'Button', extension '.stories.tsx'
+ * ```
+ */
+export const CurrentRegistry = Context.Reference<Registry>(
+  '@kitz/effect/Path/Extension/CurrentRegistry',
+  { defaultValue: () => defaults },
+)
+
+/** Decode file names against `registry` instead of {@link defaults}. */
+export const layer = (registry: Registry): Layer.Layer<never> =>
+  Layer.succeed(CurrentRegistry)(registry)
+
+const decodeExtension = S.decodeSync(Extension)
+
+/** Whether an extension spans several dots (`.d.ts`, `.tar.gz`). */
+export const isCompound = (extension: Extension): boolean => extension.indexOf('.', 1) !== -1
+
+/**
+ * A new registry: `registry` with `entries` added (or overriding). The input is
+ * left untouched. Pass the result to the analyzer, or to the codecs via
+ * {@link layer}, so a registered compound extension splits off whole. Throws on a
+ * malformed extension.
+ *
+ * @example
+ * ```ts
+ * const extensions = extend(defaults, { '.stories.tsx': { mime: 'text/tsx', language: 'typescriptreact' } })
+ * Analyzer.analyzeFileName('Button.stories.tsx', extensions)  // stem 'Button', extension '.stories.tsx'
+ * ```
+ */
+export const extend = (registry: Registry, entries: Readonly<Record<string, Info>>): Registry => {
+  const extended = new Map(registry)
+  for (const [extension, info] of Object.entries(entries)) {
+    extended.set(decodeExtension(extension), info)
+  }
+  return extended
+}
+
+/**
+ * The longest compound extension in `registry` (default {@link defaults}) that
+ * `fileName` ends with, leaving a non-empty stem. Simple extensions need no
+ * registry — the last dot finds them.
+ *
+ * @example
+ * ```ts
+ * matchCompound('index.d.ts')     // Some('.d.ts')
+ * matchCompound('bundle.tar.gz')  // Some('.tar.gz')
+ * matchCompound('index.ts')       // None
+ * ```
+ */
+export const matchCompound = (
+  fileName: string,
+  registry: Registry = defaults,
+): Option.Option<Extension> => {
+  let longest: Extension | undefined
+  for (const extension of registry.keys()) {
+    if (
+      isCompound(extension) &&
+      fileName.length > extension.length &&
+      fileName.endsWith(extension) &&
+      extension.length > (longest?.length ?? 0)
+    ) {
+      longest = extension
+    }
+  }
+  return Option.fromUndefinedOr(longest)
+}
+
+/**
+ * The entry for an extension in `registry` (default {@link defaults}). A compound
+ * extension that isn't registered falls back to its last part (`.min.js` → `.js`).
+ *
+ * @example
+ * ```ts
+ * info('.d.ts')  // Some({ mime: 'text/typescript', language: 'typescript' })
+ * info('.xyz')   // None
+ * ```
+ */
+export const info = (extension: Extension, registry: Registry = defaults): Option.Option<Info> => {
+  const entry = registry.get(extension)
+  if (entry) return Option.some(entry)
+  const last = extension.lastIndexOf('.')
+  return last > 0 ? Option.fromUndefinedOr(registry.get(extension.slice(last))) : Option.none()
+}
+
+/** The media type for an extension (see {@link info}). */
+export const mimeType = (
+  extension: Extension,
+  registry: Registry = defaults,
+): Option.Option<string> => Option.map(info(extension, registry), (entry) => entry.mime)
+
+/** The editor language identifier for an extension (see {@link info}). */
+export const languageId = (
+  extension: Extension,
+  registry: Registry = defaults,
+): Option.Option<string> =>
+  Option.flatMap(info(extension, registry), (entry) => Option.fromUndefinedOr(entry.language))
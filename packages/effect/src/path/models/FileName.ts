@@ -1,8 +1,13 @@
-import { Effect, flow, Result, Schema as S, SchemaGetter } from 'effect'
+import { Effect, Result, Schema as S, SchemaGetter } from 'effect'
 import { analyzeFileName } from '../analyzer.js'
 import * as Extension from './Extension.js'
 
-/** Filename value — a stem plus optional extension (e.g. `file.txt`). */
+/**
+ * Filename value — a stem plus optional extension (e.g. `file.txt`). Compound
+ * extensions in the current registry (`Extension.defaults` unless
+ * `Extension.layer` provides another) stay whole: `index.d.ts` is stem `index`,
+ * extension `.d.ts`.
+ */
 class FileName__ extends S.TaggedClass<FileName__>()('FileName', {
   stem: S.String,
   extension: S.OptionFromNullOr(Extension.Extension),
@@ -14,15 +19,15 @@ export class FileName_ extends S.asClass(
       encode: SchemaGetter.transform((encoded) =>
         encoded.extension ? `${encoded.stem}${encoded.extension}` : encoded.stem,
       ),
-      decode: SchemaGetter.transformOrFail(
-        flow(
-          analyzeFileName,
-          Result.map((file) => ({
-            _tag: 'FileName' as const,
-            stem: file.stem,
-            extension: file.extension,
-          })),
-          Effect.fromResult,
+      decode: SchemaGetter.transformOrFail((input: string) =>
+        Extension.CurrentRegistry.use((registry) =>
+          Effect.fromResult(
+            Result.map(analyzeFileName(input, registry), (file) => ({
+              _tag: 'FileName' as const,
+              stem: file.stem,
+              extension: file.extension,
+            })),
+          ),
         ),
       ),
     }),
@@ -1,6 +1,7 @@
 import { Effect, flow, Result, Schema as S, SchemaGetter } from 'effect'
 import { NaturalInt } from '../../schema/NaturalInt.js'
 import { analyzeDir, format } from '../analyzer.js'
+import { strict } from '../strict.js'
 import { Segment } from './segment.js'
 
 /**
@@ -44,7 +45,19 @@ export class RelDir_ extends S.asClass(
       ),
     }),
   ),
-) {}
+) {
+  /**
+   * Strict `string` ⇄ `RelDir` codec: decoding rejects input the analyzer would
+   * normalize (`//`, `.`, foldable `..`), pointing at the offending segment.
+   *
+   * @example
+   * ```ts
+   * S.decodeSync(RelDir.Strict)('./src/')    // ok
+   * S.decodeSync(RelDir.Strict)('./src//')  // throws
+   * ```
+   */
+  static readonly Strict = strict(RelDir_)
+}
 
 export const RelDir = RelDir_
 export type RelDir = typeof RelDir_.Type
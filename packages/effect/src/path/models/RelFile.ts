@@ -1,6 +1,7 @@
 import { Effect, flow, Result, Schema as S, SchemaGetter } from 'effect'
 import { NaturalInt } from '../../schema/NaturalInt.js'
 import { analyzeFile, format } from '../analyzer.js'
+import { strict } from '../strict.js'
 import { FileName } from './FileName.js'
 import { Segment } from './segment.js'
 
@@ -44,7 +45,19 @@ export class RelFile_ extends S.asClass(
       ),
     }),
   ),
-) {}
+) {
+  /**
+   * Strict `string` ⇄ `RelFile` codec: decoding rejects input the analyzer would
+   * normalize (`//`, `.`, foldable `..`), pointing at the offending segment.
+   *
+   * @example
+   * ```ts
+   * S.decodeSync(RelFile.Strict)('./src/index.ts')    // ok
+   * S.decodeSync(RelFile.Strict)('./src/../src/index.ts')  // throws
+   * ```
+   */
+  static readonly Strict = strict(RelFile_)
+}
 
 export const RelFile = RelFile_
 export type RelFile = typeof RelFile_.Type
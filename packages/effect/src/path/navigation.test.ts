@@ -0,0 +1,103 @@
+import { Result, Schema as S } from 'effect'
+import { describe, expect, it } from '@kitz/vitest'
+import { Path } from './_.js'
+
+const p = Path.fromLiteral
+
+/** The message of a failed result, for matching on why it failed. */
+const failureOf = <A, E>(result: Result.Result<A, E>): string | undefined =>
+  Result.isFailure(result) ? String(result.failure) : undefined
+
+describe('up / parent', () => {
+  it.each([
+    ['/a/b/c.ts', 1, '/a/b/'],
+    ['/a/b/c.ts', 2, '/a/'],
+    ['/a/b/', 2, '/'],
+    ['./a/', 3, '../../'],
+    ['../a.ts', 2, '../../'],
+  ] as const)('up(%s, %i) → %s', (path, n, expected) => {
+    expect(Path.up(p(path), n)).toSucceedWith(p(expected))
+  })
+
+  it('fails with AboveRootError climbing an absolute path past /', () => {
+    expect(Path.up(p('/a/'), 2)).toFailWithTag('AboveRootError')
+    expect(Path.parent(p('/'))).toFailWithTag('AboveRootError')
+  })
+
+  it.each([
+    [0, 'Expected a positive integer count'],
+    [-1, 'Expected a positive integer count'],
+    [1.5, 'Expected an integer'],
+    [Number.NaN, 'Expected an integer'],
+  ])('fails for the count %s instead of throwing', (n, message) => {
+    expect(failureOf(Path.up(p('/a/b/'), n))).toContain(message)
+  })
+
+  it('is parent for n = 1', () => {
+    expect(Path.parent(p('./'))).toSucceedWith(p('../'))
+    expect(Path.parent(p('/a/b.ts'))).toSucceedWith(p('/a/'))
+  })
+})
+
+describe('child / file', () => {
+  it('appends a segment or file name, keeping the anchoring', () => {
+    expect(Path.child(p('/a/'), 'b')).toSucceedWith(p('/a/b/'))
+    expect(Path.child(p('../'), 'lib')).toSucceedWith(p('../lib/'))
+    expect(Path.file(p('/src/'), 'index.ts')).toSucceedWith(p('/src/index.ts'))
+    expect(Path.file(p('../'), 'a.ts')).toSucceedWith(p('../a.ts'))
+  })
+
+  it.each([
+    ['', 'cannot be empty'],
+    ['.', 'traversal references'],
+    ['..', 'traversal references'],
+    ['a/b', 'cannot contain /'],
+  ])('child rejects the segment %j', (name, message) => {
+    expect(failureOf(Path.child(p('/a/'), name))).toContain(message)
+  })
+
+  it('file rejects a file name with directory segments', () => {
+    expect(failureOf(Path.file(p('/a/'), 'b/c.ts'))).toContain('it has directory segments')
+  })
+})
+
+describe('withFileName / withStem / withExtension', () => {
+  it('replaces the name or one of its parts', () => {
+    expect(Path.withFileName(p('/a/b.ts'), 'c.js')).toSucceedWith(p('/a/c.js'))
+    expect(Path.withStem(p('./a/b.ts'), 'c')).toSucceedWith(p('./a/c.ts'))
+    expect(Path.withStem(p('/a/b.d.ts'), 'c')).toSucceedWith(p('/a/c.d.ts'))
+    expect(Path.withExtension(p('/a/b.ts'), '.js')).toSucceedWith(p('/a/b.js'))
+    expect(
+      Result.map(Path.withExtension(p('/a/b.ts'), null), S.encodeSync(Path.Schema)),
+    ).toSucceedWith('/a/b')
+  })
+
+  it('rejects an invalid file name', () => {
+    expect(failureOf(Path.withFileName(p('/a/b.ts'), 'c/d.ts'))).toContain('directory segments')
+    expect(failureOf(Path.withExtension(p('/a/b.ts'), 'js'))).toBeDefined()
+  })
+
+  it('rejects a stem that would merge into a compound extension', () => {
+    const result = Path.withStem(p('/a/b.ts'), 'c.d')
+    expect(failureOf(result)).toContain('splits as "c" + ".d.ts"')
+  })
+
+  it('rejects an extension that would merge with the stem', () => {
+    const file = Path.withFileName(p('/a/b.ts'), 'c.d.js')
+    expect(failureOf(Result.flatMap(file, (f) => Path.withExtension(f, '.ts')))).toContain(
+      'splits as "c" + ".d.ts"',
+    )
+  })
+})
+
+describe('sibling', () => {
+  it('names a neighbour of the same kind', () => {
+    expect(Path.sibling(p('/a/b.ts'), 'c.ts')).toSucceedWith(p('/a/c.ts'))
+    expect(Path.sibling(p('/a/b/'), 'c')).toSucceedWith(p('/a/c/'))
+  })
+
+  it('fails at the root or on an invalid name', () => {
+    expect(Path.sibling(p('/'), 'c')).toFailWithTag('AboveRootError')
+    expect(failureOf(Path.sibling(p('/a/b/'), '..'))).toContain('traversal references')
+  })
+})
@@ -0,0 +1,259 @@
+import { Option, Result, Schema as S, SchemaIssue, SchemaParser } from 'effect'
+import { appendWithBack } from './analyzer.js'
+import { AboveRootError } from './errors.js'
+import { Abs } from './models/Abs.js'
+import { AbsDir } from './models/AbsDir.js'
+import { AbsFile } from './models/AbsFile.js'
+import type { Dir } from './models/Dir.js'
+import * as Extension from './models/Extension.js'
+import { File } from './models/File.js'
+import { FileName } from './models/FileName.js'
+import type { Path as PathSchema } from './models/Path.js'
+import { Rel } from './models/Rel.js'
+import { RelDir } from './models/RelDir.js'
+import { RelFile } from './models/RelFile.js'
+import { Segment } from './models/segment.js'
+
+type Path = typeof PathSchema.Type
+
+/** The variant of `P`, widened from any literal refinement — what a same-kind operation returns. */
+export type KindOf<P extends Path> = P extends AbsFile
+  ? AbsFile
+  : P extends AbsDir
+    ? AbsDir
+    : P extends RelFile
+      ? RelFile
+      : RelDir
+
+/** The directory kind above `P`: absolute stays absolute, relative stays relative. */
+export type Parent<P extends Path> = P extends Abs ? AbsDir : RelDir
+
+/** The error {@link parent} can fail with: only the absolute root has no parent. */
+export type ParentError<P extends Path> = P extends AbsDir ? AboveRootError : never
+
+/**
+ * The error {@link up} can fail with: any absolute path can be climbed past `/`,
+ * and a count that isn't a positive integer fails with a `SchemaIssue`.
+ */
+export type UpError<P extends Path> = (P extends Abs ? AboveRootError : never) | SchemaIssue.Issue
+
+/** The file kind inside a directory of kind `D`. */
+export type FileIn<D extends Dir> = D extends AbsDir ? AbsFile : RelFile
+
+const decodeSegment = SchemaParser.decodeResult(Segment)
+const decodeFileName = SchemaParser.decodeResult(FileName)
+const decodeExtension = SchemaParser.decodeResult(Extension.Extension)
+const decodeCount = SchemaParser.decodeResult(
+  S.Int.pipe(
+    S.check(S.isGreaterThanOrEqualTo(1, { message: 'Expected a positive integer count' })),
+  ),
+)
+
+const backOf = (path: Path): number => (S.is(Rel)(path) ? path.back : 0)
+
+/** Climb `n ≥ 1` directories from `path` (a file's first step lands on its own directory). */
+const climb = (path: Path, n: number): Result.Result<AbsDir | RelDir, AboveRootError> => {
+  const steps = S.is(File)(path) ? n - 1 : n
+  const { back, segments } = appendWithBack(
+    { back: backOf(path), segments: path.segments },
+    { back: steps, segments: [] },
+  )
+
+  if (S.is(Abs)(path)) {
+    return back > 0
+      ? Result.fail(
+          new AboveRootError({ base: AbsDir.make({ segments: path.segments }), back: steps }),
+        )
+      : Result.succeed(AbsDir.make({ segments }))
+  }
+  return Result.succeed(RelDir.make({ back, segments }))
+}
+
+/** `fileName` placed in `file`'s directory, keeping `file`'s kind and anchoring. */
+const replaceFileName = <F extends File>(file: F, fileName: FileName): KindOf<F> =>
+  (S.is(AbsFile)(file)
+    ? AbsFile.make({ segments: file.segments, fileName })
+    : RelFile.make({ back: backOf(file), segments: file.segments, fileName })) as KindOf<F>
+
+/**
+ * The file name spelled by `stem` and `extension`, failing when it wouldn't read
+ * back as those parts — `c.d` + `.ts` spells `c.d.ts`, which splits as the
+ * compound `.d.ts`.
+ */
+const fileNameOf = (
+  stem: string,
+  extension: Option.Option<string>,
+): Result.Result<FileName, SchemaIssue.Issue> => {
+  const spelled = `${stem}${Option.getOrElse(extension, () => '')}`
+  return Result.flatMap(decodeFileName(spelled), (name) =>
+    name.stem === stem && Option.getOrNull(name.extension) === Option.getOrNull(extension)
+      ? Result.succeed(name)
+      : Result.fail(
+          new SchemaIssue.InvalidValue(Option.some(spelled), {
+            message: `Expected ${JSON.stringify(spelled)} to split as stem ${JSON.stringify(stem)}, but it splits as ${JSON.stringify(name.stem)} + ${JSON.stringify(Option.getOrElse(name.extension, () => ''))}`,
+          }),
+        ),
+  )
+}
+
+/**
+ * The `n`th directory above `path` — `up(path, 1)` is its {@link parent}. A file's
+ * first ancestor is the directory holding it.
+ *
+ * A relative path climbs past its segments by growing `back`; an absolute one
+ * fails with {@link AboveRootError} instead of clamping at `/`. A count that isn't
+ * a positive integer fails with a `SchemaIssue`.
+ *
+ * @example
+ * ```ts
+ * up(absFile('/a/b/c.ts'), 2)  // Success(AbsDir /a/)
+ * up(relDir('./a/'), 3)        // Success(RelDir ../../)
+ * up(absDir('/a/'), 2)         // Failure(AboveRootError)
+ * up(absDir('/a/'), 0)         // Failure(SchemaIssue)
+ * ```
+ */
+export const up = <P extends Path>(path: P, n: number): Result.Result<Parent<P>, UpError<P>> =>
+  Result.flatMap(decodeCount(n), (count) => climb(path, count)) as Result.Result<
+    Parent<P>,
+    UpError<P>
+  >
+
+/**
+ * The directory directly above `path` (for a file, the directory holding it).
+ * Only the absolute root `/` has no parent.
+ *
+ * @example
+ * ```ts
+ * parent(absFile('/a/b.ts'))  // Success(AbsDir /a/)
+ * parent(relDir('./'))        // Success(RelDir ../)
+ * parent(absDir('/'))         // Failure(AboveRootError)
+ * ```
+ */
+export const parent = <P extends Path>(path: P): Result.Result<Parent<P>, ParentError<P>> =>
+  climb(path, 1) as Result.Result<Parent<P>, ParentError<P>>
+
+/**
+ * The subdirectory `segment` of `dir`. A name that isn't a valid segment (empty,
+ * `.`/`..`, or containing `/`) fails with a `SchemaIssue`.
+ *
+ * @example
+ * ```ts
+ * child(absDir('/a/'), 'b')     // Success(AbsDir /a/b/)
+ * child(relDir('../'), 'lib')   // Success(RelDir ../lib/)
+ * child(absDir('/a/'), '..')    // Failure(SchemaIssue)
+ * ```
+ */
+export const child = <D extends Dir>(
+  dir: D,
+  segment: string,
+): Result.Result<KindOf<D>, SchemaIssue.Issue> =>
+  Result.map(decodeSegment(segment), (name) => {
+    const segments = [...dir.segments, name]
+    return (
+      S.is(AbsDir)(dir) ? AbsDir.make({ segments }) : RelDir.make({ back: backOf(dir), segments })
+    ) as KindOf<D>
+  })
+
+/**
+ * The file `fileName` inside `dir`. An invalid file name fails with a `SchemaIssue`.
+ *
+ * @example
+ * ```ts
+ * file(absDir('/src/'), 'index.ts')  // Success(AbsFile /src/index.ts)
+ * ```
+ */
+export const file = <D extends Dir>(
+  dir: D,
+  fileName: string,
+): Result.Result<FileIn<D>, SchemaIssue.Issue> =>
+  Result.map(
+    decodeFileName(fileName),
+    (name) =>
+      (S.is(AbsDir)(dir)
+        ? AbsFile.make({ segments: dir.segments, fileName: name })
+        : RelFile.make({
+            back: backOf(dir),
+            segments: dir.segments,
+            fileName: name,
+          })) as FileIn<D>,
+  )
+
+/**
+ * `file` with its name replaced, in the same directory. The new name is re-split
+ * into stem and extension; an invalid one fails with a `SchemaIssue`.
+ *
+ * @example
+ * ```ts
+ * withFileName(absFile('/a/b.ts'), 'c.js')  // Success(AbsFile /a/c.js)
+ * ```
+ */
+export const withFileName = <F extends File>(
+  file: F,
+  fileName: string,
+): Result.Result<KindOf<F>, SchemaIssue.Issue> =>
+  Result.map(decodeFileName(fileName), (name) => replaceFileName(file, name))
+
+/**
+ * `file` with its stem replaced, keeping its extension. A stem that would merge
+ * into the extension (`c.d` before `.ts` reads back as `c` + `.d.ts`) fails.
+ *
+ * @example
+ * ```ts
+ * withStem(absFile('/a/b.ts'), 'c')    // Success(AbsFile /a/c.ts)
+ * withStem(absFile('/a/b.ts'), 'c.d')  // Failure(InvalidValue)
+ * ```
+ */
+export const withStem = <F extends File>(
+  file: F,
+  stem: string,
+): Result.Result<KindOf<F>, SchemaIssue.Issue> =>
+  Result.map(fileNameOf(stem, file.fileName.extension), (name) => replaceFileName(file, name))
+
+/**
+ * `file` with its extension replaced, or removed with `null`. The extension
+ * includes its leading dot; one that would merge with the stem (`c.d` + `.ts`)
+ * fails like in {@link withStem}.
+ *
+ * @example
+ * ```ts
+ * withExtension(absFile('/a/b.ts'), '.js')  // Success(AbsFile /a/b.js)
+ * withExtension(absFile('/a/b.ts'), null)   // Success(AbsFile /a/b)
+ * ```
+ */
+export const withExtension = <F extends File>(
+  file: F,
+  extension: string | null,
+): Result.Result<KindOf<F>, SchemaIssue.Issue> =>
+  Result.map(
+    Result.flatMap(
+      extension === null
+        ? Result.succeed(Option.none())
+        : Result.map(decodeExtension(extension), Option.some),
+      (ext) => fileNameOf(file.fileName.stem, ext),
+    ),
+    (name) => replaceFileName(file, name),
+  )
+
+/**
+ * The path named `name` next to `path`: for a file, another file in the same
+ * directory; for a directory, another directory under the same parent. Fails
+ * like {@link parent} when a directory has none, and like {@link child} or
+ * {@link withFileName} on an invalid name.
+ *
+ * @example
+ * ```ts
+ * sibling(absFile('/a/b.ts'), 'c.ts')  // Success(AbsFile /a/c.ts)
+ * sibling(absDir('/a/b/'), 'c')        // Success(AbsDir /a/c/)
+ * sibling(absDir('/'), 'c')            // Failure(AboveRootError)
+ * ```
+ */
+export const sibling = <P extends Path>(
+  path: P,
+  name: string,
+): Result.Result<KindOf<P>, ParentError<P> | SchemaIssue.Issue> =>
+  (S.is(File)(path)
+    ? withFileName(path, name)
+    : Result.flatMap(parent(path), (dir) => child(dir, name))) as Result.Result<
+    KindOf<P>,
+    ParentError<P> | SchemaIssue.Issue
+  >
@@ -0,0 +1,47 @@
+import { Schema as S } from 'effect'
+import { describe, expect, it } from '@kitz/vitest'
+import { Path } from './_.js'
+
+const decode = (input: string) => S.decodeSync(Path.Schema)(input)
+const encode = (path: typeof Path.Schema.Type) => S.encodeSync(Path.Schema)(path)
+
+describe('Order', () => {
+  it('reads like a tree listing', () => {
+    const sorted = ['./a.ts', '/a/a.ts', './b/', '/a/b/c.ts', '../x.ts', '/a/', '/a/b/']
+      .map(decode)
+      .toSorted(Path.Order)
+    expect(sorted.map(encode)).toEqual([
+      '/a/',
+      '/a/b/',
+      '/a/b/c.ts',
+      '/a/a.ts',
+      '../x.ts',
+      './b/',
+      './a.ts',
+    ])
+  })
+
+  it.each([
+    ['/z/', '/a.ts', 'a directory before a file at the same level'],
+    ['/z.ts', './a.ts', 'absolute before relative'],
+    ['../../a/', '../a/', 'further-out relative paths first'],
+    ['/a/', '/a/b/', 'an ancestor before its descendant'],
+    ['/B.ts', '/a.ts', 'names by code unit, not locale'],
+  ])('puts %s before %s: %s', (first, second) => {
+    expect(Path.Order(decode(first), decode(second))).toBe(-1)
+    expect(Path.Order(decode(second), decode(first))).toBe(1)
+  })
+
+  it('ties equivalent paths', () => {
+    expect(Path.Order(decode('/a//b.ts'), decode('/a/./b.ts'))).toBe(0)
+  })
+})
+
+describe('Equivalence / hash', () => {
+  it('agree on differently spelled equal paths', () => {
+    const [a, b] = [decode('/a//b.ts'), decode('/a/./b.ts')]
+    expect(Path.Equivalence(a, b)).toBe(true)
+    expect(Path.hash(a)).toBe(Path.hash(b))
+    expect(Path.Equivalence(a, decode('/a/b/'))).toBe(false)
+  })
+})
@@ -0,0 +1,67 @@
+import { Equivalence as Eq, Hash, Order as Ord, Schema as S } from 'effect'
+import { File } from './models/File.js'
+import { FileName } from './models/FileName.js'
+import { Path as PathSchema } from './models/Path.js'
+import { Rel } from './models/Rel.js'
+
+type Path = typeof PathSchema.Type
+
+const encode = S.encodeSync(PathSchema)
+const encodeFileName = S.encodeSync(FileName)
+
+/** One step of a path for ordering: a directory segment or the trailing file name. */
+interface Step {
+  isFile: boolean
+  name: string
+}
+
+const stepsOf = (path: Path): Step[] => {
+  const steps = path.segments.map((name) => ({ isFile: false, name }))
+  return S.is(File)(path)
+    ? [...steps, { isFile: true, name: encodeFileName(path.fileName) }]
+    : steps
+}
+
+/**
+ * The canonical path order, as a tree listing reads: absolute before relative,
+ * further-out relative paths (more `back`) first, then segment by segment — an
+ * ancestor before its descendants, directories before files at the same level,
+ * names by code unit. Deterministic across platforms and locales.
+ *
+ * @example
+ * ```ts
+ * paths.toSorted(Order)
+ * // /a/, /a/b/, /a/b/c.ts, /a/a.ts, ../x.ts, ./b/, ./a.ts
+ * ```
+ */
+export const Order: Ord.Order<Path> = (self, that) => {
+  const anchoring = Ord.Boolean(S.is(Rel)(self), S.is(Rel)(that))
+  if (anchoring !== 0) return anchoring
+  if (S.is(Rel)(self) && S.is(Rel)(that)) {
+    const back = Ord.Number(that.back, self.back)
+    if (back !== 0) return back
+  }
+
+  const selfSteps = stepsOf(self)
+  const thatSteps = stepsOf(that)
+  for (let index = 0; index < Math.min(selfSteps.length, thatSteps.length); index++) {
+    const a = selfSteps[index]!
+    const b = thatSteps[index]!
+    const byKind = Ord.Boolean(a.isFile, b.isFile)
+    if (byKind !== 0) return byKind
+    const byName = Ord.String(a.name, b.name)
+    if (byName !== 0) return byName
+  }
+  return Ord.Number(selfSteps.length, thatSteps.length)
+}
+
+/** Path equality: two paths are equivalent when they encode to the same string. */
+export const Equivalence: Eq.Equivalence<Path> = Eq.mapInput(Eq.strictEqual<string>(), encode)
+
+/**
+ * Hash a path by its encoded string, agreeing with {@link Equivalence}. Path values
+ * also implement `Equal`/`Hash` structurally — which, the codecs being canonical,
+ * partitions paths exactly as the encoded string does — so they work as
+ * `HashMap`/`HashSet` keys directly (see `PathSet`/`PathMap`).
+ */
+export const hash = (path: Path): number => Hash.string(encode(path))
@@ -0,0 +1,26 @@
+import { HashMap, Schema as S } from 'effect'
+import { describe, expect, it } from '@kitz/vitest'
+import { Path } from './_.js'
+
+const decode = (input: string) => S.decodeSync(Path.Schema)(input)
+
+describe('PathMap', () => {
+  it('treats equivalent spellings as one key, the later entry winning', () => {
+    const map = Path.PathMap.make([decode('/a//b.ts'), 1], [decode('/a/./b.ts'), 2])
+    expect(HashMap.size(map)).toBe(1)
+    expect(HashMap.get(map, decode('/a/b.ts'))).toBeSome(2)
+  })
+
+  it('lists its entries in canonical key order', () => {
+    const map = Path.PathMap.fromIterable([
+      [decode('./x.ts'), 'rel'],
+      [decode('/a/b.ts'), 'file'],
+      [decode('/a/'), 'dir'],
+    ] as const)
+    expect(Path.PathMap.toSorted(map).map(([, value]) => value)).toEqual(['dir', 'file', 'rel'])
+  })
+
+  it('starts empty', () => {
+    expect(HashMap.isEmpty(Path.PathMap.empty())).toBe(true)
+  })
+})
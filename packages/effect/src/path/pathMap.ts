@@ -0,0 +1,34 @@
+import { HashMap } from 'effect'
+import type { Path as PathSchema } from './models/Path.js'
+import { Order } from './order.js'
+
+type Path = typeof PathSchema.Type
+
+/**
+ * A map keyed by path — an Effect `HashMap`, so every `HashMap` operation applies.
+ * Keys that encode to the same string are the same key.
+ */
+export type PathMap<K extends Path = Path, V = unknown> = HashMap.HashMap<K, V>
+
+/** An empty path map. */
+export const empty = <K extends Path = Path, V = never>(): PathMap<K, V> => HashMap.empty()
+
+/** A path map of the given entries; a later duplicate key wins. */
+export const make = <K extends Path, V>(...entries: Array<readonly [K, V]>): PathMap<K, V> =>
+  HashMap.fromIterable(entries)
+
+/** A path map of the given entries; a later duplicate key wins. */
+export const fromIterable = <K extends Path, V>(
+  entries: Iterable<readonly [K, V]>,
+): PathMap<K, V> => HashMap.fromIterable(entries)
+
+/**
+ * The entries in canonical key {@link Order} — deterministic, unlike iteration order.
+ *
+ * @example
+ * ```ts
+ * PathMap.toSorted(manifest)  // [[AbsDir /a/, …], [AbsFile /a/b.ts, …], …]
+ * ```
+ */
+export const toSorted = <K extends Path, V>(map: PathMap<K, V>): Array<[K, V]> =>
+  Array.from(map).sort(([a], [b]) => Order(a, b))
@@ -0,0 +1,28 @@
+import { HashSet, Schema as S } from 'effect'
+import { describe, expect, it } from '@kitz/vitest'
+import { Path } from './_.js'
+
+const decode = (input: string) => S.decodeSync(Path.Schema)(input)
+
+describe('PathSet', () => {
+  it('deduplicates equivalent spellings', () => {
+    const set = Path.PathSet.fromIterable(
+      ['/a/b.ts', '/a//b.ts', '/a/./b.ts', '/a/c/../b.ts'].map(decode),
+    )
+    expect(HashSet.size(set)).toBe(1)
+    expect(HashSet.has(set, decode('/a/b.ts'))).toBe(true)
+  })
+
+  it('keeps a file and a directory of the same name apart', () => {
+    expect(HashSet.size(Path.PathSet.make(decode('/a/b.ts'), decode('/a/b.ts/')))).toBe(2)
+  })
+
+  it('lists its members in canonical order', () => {
+    const set = Path.PathSet.make(decode('./a.ts'), decode('/a/b.ts'), decode('/a/'))
+    expect(Path.PathSet.toSorted(set)).toEqual([decode('/a/'), decode('/a/b.ts'), decode('./a.ts')])
+  })
+
+  it('starts empty', () => {
+    expect(HashSet.size(Path.PathSet.empty())).toBe(0)
+  })
+})
@@ -0,0 +1,33 @@
+import { HashSet } from 'effect'
+import type { Path as PathSchema } from './models/Path.js'
+import { Order } from './order.js'
+
+type Path = typeof PathSchema.Type
+
+/**
+ * A set of paths — an Effect `HashSet`, so every `HashSet` operation applies.
+ * Paths that encode to the same string are the same member, however they were
+ * spelled before decoding.
+ */
+export type PathSet<P extends Path = Path> = HashSet.HashSet<P>
+
+/** An empty path set. */
+export const empty = <P extends Path = Path>(): PathSet<P> => HashSet.empty()
+
+/** A path set of the given paths. */
+export const make = <P extends Path>(...paths: P[]): PathSet<P> => HashSet.fromIterable(paths)
+
+/**
+ * A path set of the given paths, deduplicated.
+ *
+ * @example
+ * ```ts
+ * const set = PathSet.fromIterable(['/a/b.ts', '/a//b.ts'].map(S.decodeSync(Path.AbsFile)))
+ * HashSet.size(set)  // 1
+ * ```
+ */
+export const fromIterable = <P extends Path>(paths: Iterable<P>): PathSet<P> =>
+  HashSet.fromIterable(paths)
+
+/** The members in canonical {@link Order} — deterministic, unlike iteration order. */
+export const toSorted = <P extends Path>(set: PathSet<P>): P[] => Array.from(set).sort(Order)
@@ -0,0 +1,120 @@
+import { Option, Schema as S } from 'effect'
+import { describe, expect, it } from '@kitz/vitest'
+import { Path } from './_.js'
+
+const { PathTree } = Path
+const p = Path.fromLiteral
+const encode = (path: typeof Path.Schema.Type) => S.encodeSync(Path.Schema)(path)
+
+const sizes = PathTree.fromEntries([
+  [p('/src/lib/a.ts'), 3],
+  [p('/src/index.ts'), 1],
+  [p('/package.json'), 2],
+])
+
+/** The encoded paths of every file in the tree, in canonical order. */
+const filesOf = <A>(tree: Path.PathTree.PathTree<A>) =>
+  PathTree.files(tree).map((node) => encode(node.path))
+
+describe('insert', () => {
+  it('creates the directories above a path, and replaces a file already there', () => {
+    const tree = PathTree.insert(PathTree.insert(sizes, p('/docs/')), p('/src/index.ts'), 9)
+    expect(Option.isSome(PathTree.subtree(tree, p('/docs/')))).toBe(true)
+    expect(PathTree.files(tree).find((node) => node.path.fileName.stem === 'index')?.value).toBe(9)
+  })
+
+  it('ignores a path outside the tree root, like remove', () => {
+    const src = Option.getOrThrow(PathTree.subtree(sizes, p('/src/')))
+    expect(PathTree.insert(src, p('/docs/a.md'), 1)).toBe(src)
+    expect(PathTree.insert(src, p('/'))).toBe(src)
+  })
+
+  it('copies only the spine it touches', () => {
+    const tree = PathTree.insert(sizes, p('/src/lib/b.ts'), 4)
+    expect(tree.files).toBe(sizes.files)
+    expect(tree.dirs.get('src')).not.toBe(sizes.dirs.get('src'))
+    expect(sizes.dirs.get('src')!.dirs.get('lib')!.files.size).toBe(1)
+  })
+})
+
+describe('remove', () => {
+  it('drops a file, or a directory with everything under it', () => {
+    expect(filesOf(PathTree.remove(sizes, p('/src/index.ts')))).toEqual([
+      '/src/lib/a.ts',
+      '/package.json',
+    ])
+    expect(filesOf(PathTree.remove(sizes, p('/src/')))).toEqual(['/package.json'])
+  })
+
+  it('empties the tree when removing its root, and ignores paths outside it', () => {
+    expect(filesOf(PathTree.remove(sizes, p('/')))).toEqual([])
+    const src = Option.getOrThrow(PathTree.subtree(sizes, p('/src/')))
+    expect(PathTree.remove(src, p('/package.json'))).toBe(src)
+  })
+})
+
+describe('subtree', () => {
+  it('finds a contained directory, rooted at that directory', () => {
+    const lib = PathTree.subtree(sizes, p('/src/lib/'))
+    expect(Option.map(lib, (tree) => encode(tree.path))).toBeSome('/src/lib/')
+    expect(Option.map(lib, filesOf)).toBeSome(['/src/lib/a.ts'])
+  })
+
+  it('is None for a missing directory or one outside the root', () => {
+    expect(PathTree.subtree(sizes, p('/nope/'))).toBeNone()
+    const src = Option.getOrThrow(PathTree.subtree(sizes, p('/src/')))
+    expect(PathTree.subtree(src, p('/'))).toBeNone()
+  })
+})
+
+describe('fold', () => {
+  it('aggregates bottom-up, directories before files', () => {
+    const total = PathTree.fold(sizes, {
+      file: (node) => node.value,
+      dir: (_, children) => children.reduce((a, b) => a + b, 0),
+    })
+    expect(total).toBe(6)
+    const order = PathTree.fold<number, string[]>(sizes, {
+      file: (node) => [encode(node.path)],
+      dir: (node, children) => [encode(node.path), ...children.flat()],
+    })
+    expect(order).toEqual([
+      '/',
+      '/src/',
+      '/src/lib/',
+      '/src/lib/a.ts',
+      '/src/index.ts',
+      '/package.json',
+    ])
+  })
+})
+
+describe('render', () => {
+  const tree = PathTree.fromIterable([p('/a/b/c/d.ts'), p('/a/e.ts'), p('/f.md')])
+
+  it('draws the tree with box guides', () => {
+    expect(PathTree.render(tree)).toBe(
+      [
+        '/',
+        '├── a/',
+        '│   ├── b/',
+        '│   │   └── c/',
+        '│   │       └── d.ts',
+        '│   └── e.ts',
+        '└── f.md',
+      ].join('\n'),
+    )
+  })
+
+  it('merges single-subdirectory chains when compact', () => {
+    expect(PathTree.render(tree, { compact: true })).toBe(
+      ['/', '├── a/', '│   ├── b/c/', '│   │   └── d.ts', '│   └── e.ts', '└── f.md'].join('\n'),
+    )
+  })
+
+  it('labels nodes with a custom label, the root included', () => {
+    expect(
+      PathTree.render(PathTree.fromIterable([p('/x.ts')]), { label: (node) => node._tag }),
+    ).toBe(['Dir', '└── File'].join('\n'))
+  })
+})
@@ -0,0 +1,263 @@
+import { Option, Order as Ord, Schema as S } from 'effect'
+import { AbsDir } from './models/AbsDir.js'
+import { AbsFile } from './models/AbsFile.js'
+import { FileName } from './models/FileName.js'
+
+const encodeDir = S.encodeSync(AbsDir)
+const encodeFileName = S.encodeSync(FileName)
+
+/** A file in a {@link PathTree}: the inserted `AbsFile` itself, and its value. */
+export interface FileNode<A> {
+  readonly _tag: 'File'
+  readonly path: AbsFile
+  readonly value: A
+}
+
+/**
+ * A directory in a {@link PathTree}: its path, and its child directories and files
+ * keyed by name (segment / encoded file name).
+ */
+export interface DirNode<A> {
+  readonly _tag: 'Dir'
+  readonly path: AbsDir
+  readonly dirs: ReadonlyMap<string, DirNode<A>>
+  readonly files: ReadonlyMap<string, FileNode<A>>
+}
+
+/** Any node of a {@link PathTree}. */
+export type Node<A> = DirNode<A> | FileNode<A>
+
+/**
+ * An immutable trie of absolute paths, grouped by directory — its root is the
+ * directory node for `/` (or, for a {@link subtree}, that directory). Files carry a
+ * value of type `A`. The tree is keyed straight off the models' `segments` arrays —
+ * no re-parsing of path strings — and file nodes keep the `AbsFile` that was
+ * inserted. Updates copy only the spine of directories they touch.
+ */
+export type PathTree<A = undefined> = DirNode<A>
+
+const dirNode = <A>(path: AbsDir): DirNode<A> => ({
+  _tag: 'Dir',
+  path,
+  dirs: new Map(),
+  files: new Map(),
+})
+
+/** The children of a directory in canonical order: directories first, then files, by name. */
+const childrenOf = <A>(node: DirNode<A>): Node<A>[] => [
+  ...Array.from(node.dirs.keys())
+    .sort(Ord.String)
+    .map((name) => node.dirs.get(name)!),
+  ...Array.from(node.files.keys())
+    .sort(Ord.String)
+    .map((name) => node.files.get(name)!),
+]
+
+/**
+ * Rebuild `node` with the directory at `segments` replaced by `update(directory)`,
+ * copying only the directories on the way. Missing directories are created when
+ * `create` is set; otherwise the tree is returned unchanged.
+ */
+const modifyAt = <A>(
+  node: DirNode<A>,
+  segments: readonly string[],
+  create: boolean,
+  update: (directory: DirNode<A>) => DirNode<A>,
+  depth = node.path.segments.length,
+): DirNode<A> => {
+  if (depth === segments.length) return update(node)
+  const name = segments[depth]!
+  const existing = node.dirs.get(name)
+  if (!existing && !create) return node
+  const child = existing ?? dirNode<A>(AbsDir.make({ segments: segments.slice(0, depth + 1) }))
+  const dirs = new Map(node.dirs).set(name, modifyAt(child, segments, create, update, depth + 1))
+  return { ...node, dirs }
+}
+
+/** Whether `segments` lie at or under the tree's root directory. */
+const isWithin = <A>(tree: PathTree<A>, segments: readonly string[]): boolean =>
+  segments.length >= tree.path.segments.length &&
+  tree.path.segments.every((segment, index) => segments[index] === segment)
+
+/** An empty tree rooted at `/`. */
+export const empty = <A = undefined>(): PathTree<A> => dirNode(AbsDir.make({ segments: [] }))
+
+/**
+ * Add a file with its value (replacing any file already there), or a directory —
+ * creating the directories above either as needed. A path outside the tree's
+ * root (see {@link subtree}) is ignored, as in {@link remove}.
+ *
+ * @example
+ * ```ts
+ * const tree = insert(insert(empty<number>(), absFile('/src/a.ts'), 120), absDir('/docs/'))
+ * ```
+ */
+export function insert<A>(tree: PathTree<A>, path: AbsFile, value: A): PathTree<A>
+export function insert<A>(tree: PathTree<A>, path: AbsDir): PathTree<A>
+export function insert<A>(tree: PathTree<A>, path: AbsFile | AbsDir, value?: A): PathTree<A> {
+  if (!isWithin(tree, path.segments)) return tree
+  if (S.is(AbsDir)(path)) {
+    return modifyAt(tree, path.segments, true, (directory) => ({ ...directory, path }))
+  }
+  return modifyAt(tree, path.segments, true, (directory) => ({
+    ...directory,
+    files: new Map(directory.files).set(encodeFileName(path.fileName), {
+      _tag: 'File',
+      path,
+      value: value as A,
+    }),
+  }))
+}
+
+/**
+ * Build a tree from paths (file values are `undefined`).
+ *
+ * @example
+ * ```ts
+ * const tree = fromIterable(files)  // files: AbsFile[]
+ * ```
+ */
+export const fromIterable = (paths: Iterable<AbsFile | AbsDir>): PathTree =>
+  Array.from(paths).reduce<PathTree>(
+    (tree, path) => (S.is(AbsDir)(path) ? insert(tree, path) : insert(tree, path, undefined)),
+    empty(),
+  )
+
+/** Build a tree from files paired with their values. */
+export const fromEntries = <A>(entries: Iterable<readonly [AbsFile, A]>): PathTree<A> =>
+  Array.from(entries).reduce((tree, [file, value]) => insert(tree, file, value), empty<A>())
+
+/**
+ * Remove a file, or a directory with everything under it. Directories emptied by
+ * the removal stay in the tree. Removing the tree's own root leaves it empty; a
+ * path outside the root is ignored.
+ */
+export const remove = <A>(tree: PathTree<A>, path: AbsFile | AbsDir): PathTree<A> => {
+  if (!isWithin(tree, path.segments)) return tree
+  if (S.is(AbsFile)(path)) {
+    const name = encodeFileName(path.fileName)
+    return modifyAt(tree, path.segments, false, (directory) => {
+      const files = new Map(directory.files)
+      files.delete(name)
+      return { ...directory, files }
+    })
+  }
+  if (path.segments.length === tree.path.segments.length) {
+    return { ...tree, dirs: new Map(), files: new Map() }
+  }
+  const name = path.segments.at(-1)!
+  return modifyAt(tree, path.segments.slice(0, -1), false, (directory) => {
+    const dirs = new Map(directory.dirs)
+    dirs.delete(name)
+    return { ...directory, dirs }
+  })
+}
+
+/**
+ * The subtree rooted at `dir`, if the tree contains that directory.
+ *
+ * @example
+ * ```ts
+ * subtree(tree, absDir('/src/'))  // Some(DirNode /src/)
+ * ```
+ */
+export const subtree = <A>(tree: PathTree<A>, dir: AbsDir): Option.Option<PathTree<A>> => {
+  if (!isWithin(tree, dir.segments)) return Option.none()
+  let node: DirNode<A> | undefined = tree
+  for (const segment of dir.segments.slice(tree.path.segments.length)) {
+    node = node.dirs.get(segment)
+    if (!node) return Option.none()
+  }
+  return Option.some(node)
+}
+
+/**
+ * Collapse the tree bottom-up: each file becomes a `B`, each directory combines
+ * its children's (directories first, then files, by name). This is how
+ * per-directory aggregates are computed.
+ *
+ * @example
+ * ```ts
+ * // total bytes under the tree
+ * fold(sizes, { file: (node) => node.value, dir: (_, children) => children.reduce((a, b) => a + b, 0) })
+ * ```
+ */
+export const fold = <A, B>(
+  tree: PathTree<A>,
+  f: {
+    readonly file: (node: FileNode<A>) => B
+    readonly dir: (node: DirNode<A>, children: B[]) => B
+  },
+): B =>
+  f.dir(
+    tree,
+    childrenOf(tree).map((node) => (node._tag === 'Dir' ? fold(node, f) : f.file(node))),
+  )
+
+/** Transform every file's value, keeping the shape of the tree. */
+export const map = <A, B>(tree: PathTree<A>, f: (value: A, file: AbsFile) => B): PathTree<B> => ({
+  ...tree,
+  dirs: new Map(Array.from(tree.dirs, ([name, node]) => [name, map(node, f)])),
+  files: new Map(
+    Array.from(tree.files, ([name, node]) => [name, { ...node, value: f(node.value, node.path) }]),
+  ),
+})
+
+/** Every file in the tree, in canonical order (as `Path.Order` sorts them). */
+export const files = <A>(tree: PathTree<A>): FileNode<A>[] =>
+  fold<A, FileNode<A>[]>(tree, { file: (node) => [node], dir: (_, children) => children.flat() })
+
+/** Options for {@link render}. */
+export interface RenderOptions<A> {
+  /** Merge chains of directories that hold nothing but one subdirectory (`a/b/c/`). */
+  readonly compact?: boolean | undefined
+  /** The text for a node; defaults to its name, directories with a trailing `/`. */
+  readonly label?: ((node: Node<A>) => string) | undefined
+}
+
+const defaultLabel = <A>(node: Node<A>): string =>
+  node._tag === 'File' ? encodeFileName(node.path.fileName) : `${node.path.name}/`
+
+/**
+ * Render the tree like the `tree` command: the root's path, then one line per
+ * node with box-drawing guides.
+ *
+ * @example
+ * ```ts
+ * render(tree)
+ * // /
+ * // ├── src/
+ * // │   └── index.ts
+ * // └── package.json
+ * ```
+ */
+export const render = <A>(tree: PathTree<A>, options?: RenderOptions<A>): string => {
+  const label = options?.label ?? defaultLabel
+  const compact = options?.compact === true
+
+  /** Follow a single-subdirectory chain when compacting, returning its label and the last directory. */
+  const collapse = (node: DirNode<A>): { text: string; node: DirNode<A> } => {
+    let text = label(node)
+    let current = node
+    if (!compact) return { text, node: current }
+    while (current.files.size === 0 && current.dirs.size === 1) {
+      current = current.dirs.values().next().value!
+      text += label(current)
+    }
+    return { text, node: current }
+  }
+
+  const lines = (node: DirNode<A>, prefix: string): string[] =>
+    childrenOf(node).flatMap((child, index, children) => {
+      const isLast = index === children.length - 1
+      const guide = isLast ? '└── ' : '├── '
+      if (child._tag === 'File') return [`${prefix}${guide}${label(child)}`]
+      const collapsed = collapse(child)
+      return [
+        `${prefix}${guide}${collapsed.text}`,
+        ...lines(collapsed.node, `${prefix}${isLast ? '    ' : '│   '}`),
+      ]
+    })
+
+  return [options?.label ? label(tree) : encodeDir(tree.path), ...lines(tree, '')].join('\n')
+}
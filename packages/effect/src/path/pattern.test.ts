@@ -0,0 +1,80 @@
+import { describe, expect, expectTypeOf, it } from '@kitz/vitest'
+import { type Option, Result, Schema, type SchemaIssue } from 'effect'
+import { Path } from './_.js'
+
+const pattern = <const Template extends string>(template: Template) =>
+  Result.getOrThrow(Path.Pattern.make(template))
+
+const post = pattern('content/:locale/:slug.md')
+
+describe('make', () => {
+  it('types the captures and the path kind', () => {
+    expectTypeOf(Path.Pattern.match(post, Path.fromLiteral('./content/en/a.md'))).toEqualTypeOf<
+      Option.Option<{ readonly locale: string; readonly slug: string }>
+    >()
+    expectTypeOf(Path.Pattern.fill(post, { locale: 'en', slug: 'a' })).toEqualTypeOf<
+      Result.Result<Path.RelFile, SchemaIssue.Issue>
+    >()
+  })
+
+  it.each([
+    ['content/:.md', 'a capture name after ":"'],
+    ['content/:a:b.md', 'literal text before capture :b'],
+    [':a/:a.md', 'capture :a only once'],
+  ])('rejects %s', (template, message) => {
+    const made = Path.Pattern.make(template)
+    expect(Result.isFailure(made) && made.failure.toString()).toContain(message)
+  })
+})
+
+describe('match', () => {
+  it('binds captures', () => {
+    expect(Path.Pattern.match(post, Path.fromLiteral('./content/en/hello.md'))).toBeSome({
+      locale: 'en',
+      slug: 'hello',
+    })
+  })
+
+  it('splits a segment at its literal text', () => {
+    const avatar = pattern('/users/:id/avatar.:ext')
+    expect(Path.Pattern.match(avatar, Path.fromLiteral('/users/42/avatar.png'))).toBeSome({
+      id: '42',
+      ext: 'png',
+    })
+  })
+
+  it.each([
+    './content/en/hello.txt',
+    './content/hello.md',
+    '/content/en/hello.md',
+    './content/en/',
+  ])('rejects %s', (input) => {
+    expect(Path.Pattern.match(post, Schema.decodeSync(Path.Schema)(input))).toBeNone()
+  })
+})
+
+describe('fill', () => {
+  it('is the inverse of match', () => {
+    expect(Path.Pattern.fill(post, { locale: 'de', slug: 'hallo' })).toSucceedWith(
+      Path.fromLiteral('./content/de/hallo.md'),
+    )
+  })
+
+  it('writes values verbatim, even when they look like captures', () => {
+    const both = pattern('./:a-:b/')
+    expect(Path.Pattern.fill(both, { a: ':b', b: 'x' })).toSucceedWith(Path.fromLiteral('./:b-x/'))
+  })
+
+  it('fills names that prefix one another', () => {
+    const ids = pattern('./:id-:idx/')
+    expect(Path.Pattern.fill(ids, { id: '1', idx: '2' })).toSucceedWith(Path.fromLiteral('./1-2/'))
+  })
+
+  it.each([
+    ['empty', ''],
+    ['a slash', 'a/b'],
+    ['a parent reference', '..'],
+  ])('fails on a value holding %s', (_, locale) => {
+    expect(Path.Pattern.fill(post, { locale, slug: 'x' })).toFailWithTag('InvalidValue')
+  })
+})
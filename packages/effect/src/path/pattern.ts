@@ -0,0 +1,260 @@
+import { Option, Result, Schema as S, SchemaIssue } from 'effect'
+import { analyze } from './analyzer.js'
+import type { AnalyzeLiteral } from './literal.js'
+import { AbsDir } from './models/AbsDir.js'
+import { AbsFile } from './models/AbsFile.js'
+import { File } from './models/File.js'
+import { FileName } from './models/FileName.js'
+import type { Path as PathSchema } from './models/Path.js'
+import { Rel } from './models/Rel.js'
+import { RelDir } from './models/RelDir.js'
+import { RelFile } from './models/RelFile.js'
+
+type Path = typeof PathSchema.Type
+
+const encodeFileName = S.encodeSync(FileName)
+
+type Letter =
+  | 'a'
+  | 'b'
+  | 'c'
+  | 'd'
+  | 'e'
+  | 'f'
+  | 'g'
+  | 'h'
+  | 'i'
+  | 'j'
+  | 'k'
+  | 'l'
+  | 'm'
+  | 'n'
+  | 'o'
+  | 'p'
+  | 'q'
+  | 'r'
+  | 's'
+  | 't'
+  | 'u'
+  | 'v'
+  | 'w'
+  | 'x'
+  | 'y'
+  | 'z'
+type Digit = '0' | '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9'
+/** Characters a capture name is made of — the same set as the runtime's `\w`. */
+type NameChar = Letter | Uppercase<Letter> | Digit | '_'
+
+/** Read a capture name off the front of `S`: `[name, rest]`. */
+type TakeName<S extends string, Name extends string = ''> = S extends `${infer Head}${infer Tail}`
+  ? Head extends NameChar
+    ? TakeName<Tail, `${Name}${Head}`>
+    : [Name, S]
+  : [Name, S]
+
+/**
+ * The capture names in a pattern template.
+ *
+ * @example
+ * ```ts
+ * type N = Names<'content/:locale/:slug.md'>  // 'locale' | 'slug'
+ * ```
+ */
+export type Names<Template extends string> = Template extends `${string}:${infer Rest}`
+  ? TakeName<Rest> extends [infer Name extends string, infer After extends string]
+    ? Name | Names<After>
+    : never
+  : never
+
+/** The record a match yields: one string per capture (any names for a non-literal template). */
+export type Captures<Template extends string> = string extends Template
+  ? { readonly [name: string]: string }
+  : { readonly [Name in Names<Template>]: string }
+
+/** The path variant a template describes — see `AnalyzeLiteral` for how its shape decides. */
+export type Kind<Template extends string> = string extends Template
+  ? Path
+  : {
+      AbsFile: AbsFile
+      AbsDir: AbsDir
+      RelFile: RelFile
+      RelDir: RelDir
+    }[AnalyzeLiteral<Template>['_tag']]
+
+/** A piece of a step: literal text, or a capture binding the text it spans. */
+export type Part =
+  | { readonly _tag: 'Text'; readonly text: string }
+  | { readonly _tag: 'Capture'; readonly name: string }
+
+/** One compiled segment (or the file name): its parts, a whole-name regex and the captures it binds. */
+export interface Step {
+  readonly source: string
+  readonly parts: readonly Part[]
+  readonly regex: RegExp
+  readonly names: readonly string[]
+}
+
+/**
+ * A compiled path pattern. The template reads like a path literal — absolute or
+ * relative, with a trailing `/` or an extension deciding directory vs file —
+ * where `:name` captures the rest of a segment up to the next literal text:
+ * `content/:locale/:slug.md`, `/users/:id/avatar.:ext`.
+ */
+export interface Pattern<Template extends string = string> {
+  readonly template: Template
+  readonly _tag: 'AbsFile' | 'AbsDir' | 'RelFile' | 'RelDir'
+  readonly back: number
+  readonly segments: readonly Step[]
+  /** The file-name step, for file patterns. */
+  readonly fileName: Step | undefined
+}
+
+const escape = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+const compileStep = (
+  template: string,
+  source: string,
+  seen: Set<string>,
+): Result.Result<Step, SchemaIssue.Issue> => {
+  const invalid = (expected: string) =>
+    Result.fail(
+      new SchemaIssue.InvalidValue(Option.some(template), {
+        message: `Expected ${expected} in pattern ${template}`,
+      }),
+    )
+  const parts: Part[] = []
+  for (const [index, token] of source.split(/(:\w*)/).entries()) {
+    if (index % 2 === 0) {
+      if (token) parts.push({ _tag: 'Text', text: token })
+      continue
+    }
+    const name = token.slice(1)
+    if (!name) return invalid('a capture name after ":"')
+    if (parts.at(-1)?._tag === 'Capture') return invalid(`literal text before capture :${name}`)
+    if (seen.has(name)) return invalid(`capture :${name} only once`)
+    seen.add(name)
+    parts.push({ _tag: 'Capture', name })
+  }
+  const pattern = parts.map((part) => (part._tag === 'Text' ? escape(part.text) : '(.+?)')).join('')
+  return Result.succeed({
+    source,
+    parts,
+    regex: new RegExp(`^${pattern}$`),
+    names: parts.flatMap((part) => (part._tag === 'Capture' ? [part.name] : [])),
+  })
+}
+
+/**
+ * Compile a pattern template. Malformed templates — a `:` without a name, two
+ * captures with no text between them, a repeated name — fail with an issue.
+ *
+ * @example
+ * ```ts
+ * const post = Result.getOrThrow(make('content/:locale/:slug.md'))  // Pattern<'content/:locale/:slug.md'>
+ * make('content/:a:b.md')  // Failure(InvalidValue: Expected literal text before capture :b …)
+ * ```
+ */
+export const make = <const Template extends string>(
+  template: Template,
+): Result.Result<Pattern<Template>, SchemaIssue.Issue> => {
+  const analysis = analyze(template)
+  const seen = new Set<string>()
+  const sources =
+    analysis._tag === 'file' ? [...analysis.segments, analysis.fileName] : analysis.segments
+  const steps: Step[] = []
+  for (const source of sources) {
+    const step = compileStep(template, source, seen)
+    if (Result.isFailure(step)) return Result.fail(step.failure)
+    steps.push(step.success)
+  }
+  const prefix = analysis.isPathAbsolute ? 'Abs' : 'Rel'
+  return Result.succeed({
+    template,
+    _tag: analysis._tag === 'file' ? `${prefix}File` : `${prefix}Dir`,
+    back: analysis.back,
+    segments: analysis._tag === 'file' ? steps.slice(0, -1) : steps,
+    fileName: analysis._tag === 'file' ? steps.at(-1) : undefined,
+  })
+}
+
+const bind = (step: Step, name: string, captures: Record<string, string>): boolean => {
+  const found = step.regex.exec(name)
+  if (!found) return false
+  step.names.forEach((capture, index) => (captures[capture] = found[index + 1]!))
+  return true
+}
+
+/**
+ * Match a path against a pattern: the same variant and `back` count, and each
+ * segment (and the file name) matching its step.
+ *
+ * @example
+ * ```ts
+ * match(post, relFile('./content/en/hello.md'))  // Some({ locale: 'en', slug: 'hello' })
+ * match(post, relFile('./content/en/hello.txt')) // None
+ * ```
+ */
+export const match = <Template extends string>(
+  pattern: Pattern<Template>,
+  path: Path,
+): Option.Option<Captures<Template>> => {
+  if (path._tag !== pattern._tag) return Option.none()
+  if ((S.is(Rel)(path) ? path.back : 0) !== pattern.back) return Option.none()
+  if (path.segments.length !== pattern.segments.length) return Option.none()
+
+  const captures: Record<string, string> = {}
+  const segmentsMatch = pattern.segments.every((step, index) =>
+    bind(step, path.segments[index]!, captures),
+  )
+  const fileNameMatches =
+    !pattern.fileName ||
+    (S.is(File)(path) && bind(pattern.fileName, encodeFileName(path.fileName), captures))
+  return segmentsMatch && fileNameMatches
+    ? Option.some(captures as Captures<Template>)
+    : Option.none()
+}
+
+const codecs = { AbsFile, AbsDir, RelFile, RelDir }
+
+/**
+ * Fill captures back into a pattern, giving the path it describes — the inverse of
+ * {@link match}. Fails when a value can't stand in for its capture (empty, holds a
+ * `/`, or changes the path's shape, like `..`).
+ *
+ * @example
+ * ```ts
+ * fill(post, { locale: 'de', slug: 'hallo' })  // Success(RelFile ./content/de/hallo.md)
+ * ```
+ */
+export const fill = <Template extends string>(
+  pattern: Pattern<Template>,
+  captures: NoInfer<Captures<Template>>,
+): Result.Result<Kind<Template>, SchemaIssue.Issue> => {
+  const values = captures as Record<string, string>
+  const write = (step: Step) =>
+    step.parts
+      .map((part) => (part._tag === 'Text' ? part.text : (values[part.name] ?? '')))
+      .join('')
+  const names = pattern.segments.map(write)
+  if (pattern.fileName) names.push(write(pattern.fileName))
+  const anchor = pattern._tag.startsWith('Abs')
+    ? '/'
+    : pattern.back > 0
+      ? '../'.repeat(pattern.back)
+      : './'
+  const input = `${anchor}${names.join('/')}${pattern.fileName || names.length === 0 ? '' : '/'}`
+
+  const invalid = new SchemaIssue.InvalidValue(Option.some(input), {
+    message: `Expected captures that fill pattern ${pattern.template}, received ${JSON.stringify(input)}`,
+  })
+  const filled = S.decodeUnknownOption(codecs[pattern._tag] as S.Codec<Path, string>)(input)
+  return Option.match(filled, {
+    onNone: () => Result.fail(invalid),
+    onSome: (path) =>
+      Option.exists(match(pattern, path), (found) =>
+        Object.entries(found).every(([name, value]) => values[name] === value),
+      )
+        ? Result.succeed(path as Kind<Template>)
+        : Result.fail(invalid),
+  })
+}
@@ -0,0 +1,125 @@
+import { Schema as S } from 'effect'
+import { describe, expect, it } from '@kitz/vitest'
+import { Path } from './_.js'
+
+const { Portability } = Path
+const p = Path.fromLiteral
+
+describe('windows', () => {
+  it.each([
+    ['CON', 'reserved device name'],
+    ['nul.txt', 'reserved device name'],
+    ['COM1.tar.gz', 'reserved device name'],
+    ['LPT²', 'reserved device name'],
+    ['a:b', 'are not allowed on Windows'],
+    ['a\\b', 'are not allowed on Windows'],
+    ['tab\there', 'are not allowed on Windows'],
+    ['notes.', 'trailing dot or space'],
+    ['notes ', 'trailing dot or space'],
+  ])('rejects %j', (segment, reason) => {
+    expect(Portability.windows.segment!(segment)).toContain(reason)
+  })
+
+  it.each(['CONFIG', 'console.log', 'COM0', 'a.b', '.gitignore'])('accepts %j', (segment) => {
+    expect(Portability.windows.segment!(segment)).toBeUndefined()
+  })
+})
+
+describe('posixPortable', () => {
+  it.each(['a.b', 'A_z-0', '.env'])('accepts %j', (segment) => {
+    expect(Portability.posixPortable.segment!(segment)).toBeUndefined()
+  })
+
+  it.each([
+    ['a b', 'are portable'],
+    ['é', 'are portable'],
+    ['-rf', 'a leading "-"'],
+  ])('rejects %j', (segment, reason) => {
+    expect(Portability.posixPortable.segment!(segment)).toContain(reason)
+  })
+})
+
+describe('limits', () => {
+  it('counts UTF-8 bytes, not characters', () => {
+    const profile = Portability.limits({ nameMax: 4, pathMax: 8 })
+    expect(profile.segment!('éé')).toBeUndefined()
+    expect(profile.segment!('ééé')).toBe('6 bytes exceeds NAME_MAX (4)')
+    expect(profile.path!('/a/🙂/b')).toBe('9 bytes exceeds PATH_MAX (8)')
+  })
+
+  it('defaults to Linux NAME_MAX and PATH_MAX', () => {
+    const profile = Portability.limits()
+    expect(profile.name).toBe('NAME_MAX 255 / PATH_MAX 4096')
+    expect(profile.segment!('a'.repeat(255))).toBeUndefined()
+    expect(profile.segment!('a'.repeat(256))).toContain('exceeds NAME_MAX')
+  })
+})
+
+describe('check / refine', () => {
+  const WindowsFile = Portability.refine(Path.AbsFile, Portability.windows)
+
+  it('reports each offending segment at its position', () => {
+    expect('/a./b/CON.txt').toFailDecoding(
+      WindowsFile,
+      'trailing dot or space is stripped on Windows\n  at ["segments"][0]',
+    )
+    expect('/a./b/CON.txt').toFailDecoding(
+      WindowsFile,
+      '"CON" is a reserved device name on Windows\n  at ["fileName"]',
+    )
+    expect('/a/b/c.txt').not.toFailDecoding(WindowsFile)
+  })
+
+  it('reports whole-path limits at the root, prefixed by the profile name', () => {
+    const Short = Portability.refine(Path.RelFile, Portability.limits({ pathMax: 8 }))
+    expect('./abcd/efgh.ts').toFailDecoding(
+      Short,
+      /^NAME_MAX 255 \/ PATH_MAX 8: 14 bytes exceeds PATH_MAX \(8\)$/m,
+    )
+  })
+
+  it('enforces every profile it is given', () => {
+    const Strict = Portability.refine(Path.RelDir, Portability.posixPortable, Portability.windows)
+    expect('./a b./').toFailDecoding(Strict, 'POSIX portable:')
+    expect('./a b./').toFailDecoding(Strict, 'Windows-safe:')
+  })
+
+  it('works as a plain schema check', () => {
+    expect(S.is(Path.AbsDir.pipe(S.check(Portability.check(Portability.windows))))(p('/a/'))).toBe(
+      true,
+    )
+  })
+})
+
+describe('caseCollisions', () => {
+  it('finds entries of one directory equal once case and Unicode form fold', () => {
+    expect(
+      Portability.caseCollisions([
+        p('/src/Readme.md'),
+        p('/src/README.md'),
+        p('/Src/x.ts'),
+        p('/docs/caf\u00e9.md'),
+        p('/docs/cafe\u0301.md'),
+      ]),
+    ).toEqual([
+      { directory: '/', names: ['src', 'Src'] },
+      { directory: '/src/', names: ['Readme.md', 'README.md'] },
+      { directory: '/docs/', names: ['caf\u00e9.md', 'cafe\u0301.md'] },
+    ])
+  })
+
+  it('keeps different directories and anchorings apart', () => {
+    expect(
+      Portability.caseCollisions([p('/a/x.ts'), p('/b/X.ts'), p('./a.ts'), p('../A.ts')]),
+    ).toEqual([])
+  })
+
+  it('rejects a colliding collection through noCaseCollisions', () => {
+    const Manifest = S.Array(Path.RelFile).pipe(S.check(Portability.noCaseCollisions()))
+    expect(['./a.ts', './A.ts']).toFailDecoding(
+      Manifest,
+      '"a.ts", "A.ts" collide in ./ on a case-insensitive file system',
+    )
+    expect(['./a.ts', './b/A.ts']).not.toFailDecoding(Manifest)
+  })
+})
@@ -0,0 +1,184 @@
+import { Schema as S } from 'effect'
+import { File } from './models/File.js'
+import { FileName } from './models/FileName.js'
+import { Path as PathSchema } from './models/Path.js'
+import { Rel } from './models/Rel.js'
+
+type Path = typeof PathSchema.Type
+
+const encode = S.encodeSync(PathSchema)
+const encodeFileName = S.encodeSync(FileName)
+const utf8 = new TextEncoder()
+
+/**
+ * A portability rule set. Each hook returns why its input isn't allowed, or
+ * `undefined` when it is.
+ */
+export interface Profile {
+  readonly name: string
+  /** Checks one segment (a directory name or the file name). */
+  readonly segment?: ((segment: string) => string | undefined) | undefined
+  /** Checks the whole encoded path. */
+  readonly path?: ((encoded: string) => string | undefined) | undefined
+}
+
+/**
+ * The POSIX portable filename character set: `A–Z a–z 0–9 . _ -`, not starting
+ * with `-`.
+ */
+export const posixPortable: Profile = {
+  name: 'POSIX portable',
+  segment: (segment) =>
+    !/^[A-Za-z0-9._-]+$/.test(segment)
+      ? 'only A-Z, a-z, 0-9, ".", "_" and "-" are portable'
+      : segment.startsWith('-')
+        ? 'a leading "-" is not portable'
+        : undefined,
+}
+
+/** Device names Windows reserves in every directory, with or without an extension. */
+const windowsReserved = /^(?:CON|PRN|AUX|NUL|COM[1-9¹²³]|LPT[1-9¹²³])(?:\..*)?$/i
+
+/**
+ * Names Windows can create: no reserved device names (`CON`, `NUL`, `COM1`, …,
+ * also with an extension), none of `<>:"|?*\` or control characters, and no
+ * trailing dot or space.
+ */
+export const windows: Profile = {
+  name: 'Windows-safe',
+  segment: (segment) =>
+    windowsReserved.test(segment)
+      ? `"${segment.split('.')[0]}" is a reserved device name on Windows`
+      : /[<>:"|?*\\\u0000-\u001f]/.test(segment)
+        ? 'the characters <>:"|?*\\ and control characters are not allowed on Windows'
+        : /[. ]$/.test(segment)
+          ? 'a trailing dot or space is stripped on Windows'
+          : undefined,
+}
+
+/**
+ * Length limits, in UTF-8 bytes: `nameMax` per segment and `pathMax` for the
+ * whole path. Defaults are Linux's `NAME_MAX` (255) and `PATH_MAX` (4096).
+ *
+ * @example
+ * ```ts
+ * limits()                  // NAME_MAX 255, PATH_MAX 4096
+ * limits({ pathMax: 1024 }) // macOS PATH_MAX
+ * ```
+ */
+export const limits = (options?: { nameMax?: number; pathMax?: number }): Profile => {
+  const nameMax = options?.nameMax ?? 255
+  const pathMax = options?.pathMax ?? 4096
+  return {
+    name: `NAME_MAX ${nameMax} / PATH_MAX ${pathMax}`,
+    segment: (segment) => {
+      const bytes = utf8.encode(segment).length
+      return bytes > nameMax ? `${bytes} bytes exceeds NAME_MAX (${nameMax})` : undefined
+    },
+    path: (encoded) => {
+      const bytes = utf8.encode(encoded).length
+      return bytes > pathMax ? `${bytes} bytes exceeds PATH_MAX (${pathMax})` : undefined
+    },
+  }
+}
+
+/**
+ * A schema check enforcing profiles on a path value, reporting each offending
+ * segment at its position (`segments[i]` or `fileName`).
+ *
+ * @example
+ * ```ts
+ * const WindowsFile = Path.AbsFile.pipe(S.check(Portability.check(Portability.windows)))
+ * S.decodeSync(WindowsFile)('/docs/CON.txt')  // throws: "CON" is a reserved device name on Windows
+ * ```
+ */
+export const check = <P extends Path = Path>(...profiles: Profile[]) =>
+  S.makeFilter<P>(
+    (path) => {
+      const issues: Array<{ path: ReadonlyArray<PropertyKey>; issue: string }> = []
+      const segments: Array<[ReadonlyArray<PropertyKey>, string]> = path.segments.map(
+        (segment, index) => [['segments', index], segment],
+      )
+      if (S.is(File)(path)) segments.push([['fileName'], encodeFileName(path.fileName)])
+      const encoded = encode(path)
+
+      for (const profile of profiles) {
+        for (const [at, segment] of segments) {
+          const reason = profile.segment?.(segment)
+          if (reason) issues.push({ path: at, issue: `${profile.name}: ${reason}` })
+        }
+        const reason = profile.path?.(encoded)
+        if (reason) issues.push({ path: [], issue: `${profile.name}: ${reason}` })
+      }
+      return issues
+    },
+    { description: `a path portable under ${profiles.map((profile) => profile.name).join(', ')}` },
+  )
+
+/**
+ * A stricter variant of a path codec that also enforces `profiles`.
+ *
+ * @example
+ * ```ts
+ * const PortableFile = Portability.refine(Path.RelFile, Portability.posixPortable, Portability.limits())
+ * ```
+ */
+export const refine = <Codec extends S.Codec<Path, string>>(codec: Codec, ...profiles: Profile[]) =>
+  codec.pipe(S.check(check<Codec['Type']>(...profiles)))
+
+/** Entries of one directory whose names are equal once case and Unicode form are folded. */
+export interface CaseCollision {
+  /** The directory holding the entries, as first spelled. */
+  readonly directory: string
+  /** The colliding entry names, in first-seen order. */
+  readonly names: readonly string[]
+}
+
+/** How case-insensitive file systems (macOS, Windows defaults) compare names. */
+const fold = (name: string): string => name.normalize('NFC').toLowerCase()
+
+/**
+ * Find names that would collide on a case-insensitive file system: entries of
+ * the same directory (at any depth) spelled differently but equal once folded.
+ *
+ * @example
+ * ```ts
+ * caseCollisions([absFile('/src/Readme.md'), absFile('/src/README.md'), absFile('/Src/x.ts')])
+ * // [{ directory: '/', names: ['src', 'Src'] }, { directory: '/src/', names: ['Readme.md', 'README.md'] }]
+ * ```
+ */
+export const caseCollisions = (paths: Iterable<Path>): CaseCollision[] => {
+  const entries = new Map<string, { directory: string; names: string[] }>()
+
+  for (const path of paths) {
+    const names = [...path.segments, ...(S.is(File)(path) ? [encodeFileName(path.fileName)] : [])]
+    let directory = S.is(Rel)(path) ? (path.back > 0 ? '../'.repeat(path.back) : './') : '/'
+    for (const name of names) {
+      const key = `${fold(directory)}\u0000${fold(name)}`
+      const entry = entries.get(key) ?? { directory, names: [] }
+      if (!entry.names.includes(name)) entry.names.push(name)
+      entries.set(key, entry)
+      directory = `${directory}${name}/`
+    }
+  }
+
+  return Array.from(entries.values()).filter((entry) => entry.names.length > 1)
+}
+
+/**
+ * A schema check rejecting a collection of paths with {@link caseCollisions}.
+ *
+ * @example
+ * ```ts
+ * const Manifest = S.Array(Path.RelFile).pipe(S.check(Portability.noCaseCollisions()))
+ * ```
+ */
+export const noCaseCollisions = <P extends Path = Path>() =>
+  S.makeFilter<ReadonlyArray<P>>(
+    (paths) =>
+      caseCollisions(paths).map(
+        (collision) =>
+          `${collision.names.map((name) => JSON.stringify(name)).join(', ')} collide in ${collision.directory} on a case-insensitive file system`,
+      ),
+    { description: 'paths without case collisions' },
+  )
@@ -0,0 +1,80 @@
+import { describe, expect, it } from '@kitz/vitest'
+import { Path } from './_.js'
+
+describe('relative', () => {
+  it.each([
+    ['/a/b/', '/a/c/d.ts', '../c/d.ts'],
+    ['/a/', '/a/b/', './b/'],
+    ['/a/b/', '/a/b/', './'],
+    ['/a/b/c/', '/', '../../../'],
+    ['/', '/x/y.ts', './x/y.ts'],
+    ['/a/b/', '/a/b.ts', '../b.ts'],
+    ['/x/y/', '/a/b/', '../../a/b/'],
+  ] as const)('from %s to %s is %s', (from, to, expected) => {
+    expect(Path.relative(Path.fromLiteral(from), Path.fromLiteral(to))).toEqual(
+      Path.fromLiteral(expected),
+    )
+  })
+
+  it('counts the climb in back and round-trips through join', () => {
+    const from = Path.fromLiteral('/a/b/c/')
+    const to = Path.fromLiteral('/a/x.ts')
+    const rel = Path.relative(from, to)
+    expect(rel.back).toBe(2)
+    expect(Path.join(from, rel)).toSucceedWith(to)
+  })
+
+  it('takes absolute paths only', () => {
+    // @ts-expect-error a relative `from` has no fixed location
+    Path.relative(Path.fromLiteral('./a/'), Path.fromLiteral('/a/b/'))
+  })
+})
+
+describe('isAncestorOf / isDescendantOf', () => {
+  it.each([
+    ['/a/', '/a/b/c.ts', true],
+    ['/a/', '/a/b/', true],
+    ['/', '/x.ts', true],
+    ['/a/', '/a/', false],
+    ['/a/b/', '/a/', false],
+    ['/a/', '/ab/c.ts', false],
+    ['/a/b/', '/a/c/', false],
+  ] as const)('%s contains %s: %s', (ancestor, path, expected) => {
+    expect(Path.isAncestorOf(Path.fromLiteral(ancestor), Path.fromLiteral(path))).toBe(expected)
+    expect(Path.isDescendantOf(Path.fromLiteral(path), Path.fromLiteral(ancestor))).toBe(expected)
+  })
+
+  it('takes absolute paths only', () => {
+    // @ts-expect-error relative paths can't be compared without a base
+    Path.isAncestorOf(Path.fromLiteral('/a/'), Path.fromLiteral('../a/b.ts'))
+  })
+})
+
+describe('isSibling', () => {
+  it.each([
+    ['/a/x.ts', '/a/b/', true],
+    ['/a/x.ts', '/a/y.ts', true],
+    ['/a/b/', '/a/c/', true],
+    ['/x.ts', '/y/', true],
+    ['/a/x.ts', '/a/x.ts', false],
+    ['/a/x.ts', '/b/x.ts', false],
+    ['/a/x.ts', '/a/b/y.ts', false],
+    ['/', '/a/', false],
+  ] as const)('%s and %s: %s', (a, b, expected) => {
+    expect(Path.isSibling(Path.fromLiteral(a), Path.fromLiteral(b))).toBe(expected)
+  })
+})
+
+describe('commonAncestor', () => {
+  it.each([
+    ['/a/b/x.ts', '/a/c/y.ts', '/a/'],
+    ['/x.ts', '/y/', '/'],
+    ['/a/b/', '/a/b/c.ts', '/a/b/'],
+    ['/a/b/', '/a/b/', '/a/b/'],
+    ['/a/b.ts', '/a/b/c.ts', '/a/'],
+  ] as const)('of %s and %s is %s', (a, b, expected) => {
+    expect(Path.commonAncestor(Path.fromLiteral(a), Path.fromLiteral(b))).toEqual(
+      Path.fromLiteral(expected),
+    )
+  })
+})
@@ -0,0 +1,94 @@
+import { Schema as S } from 'effect'
+import { Abs } from './models/Abs.js'
+import { AbsDir } from './models/AbsDir.js'
+import { AbsFile } from './models/AbsFile.js'
+import { RelDir } from './models/RelDir.js'
+import { RelFile } from './models/RelFile.js'
+
+/** The relative path kind from a directory to `To`: files stay files, directories stay directories. */
+export type Relative<To extends Abs> = To extends AbsFile ? RelFile : RelDir
+
+/** Length of the shared leading run of two segment arrays. */
+const commonPrefixLength = (a: readonly string[], b: readonly string[]): number => {
+  let length = 0
+  while (length < a.length && length < b.length && a[length] === b[length]) length++
+  return length
+}
+
+/** Segments of the directory holding a path, or `null` for the root (which has no parent). */
+const parentSegments = (path: Abs): readonly string[] | null =>
+  S.is(AbsFile)(path) ? path.segments : path.segments.length > 0 ? path.segments.slice(0, -1) : null
+
+/**
+ * The relative path leading from the directory `from` to `to` — climbing out of
+ * `from` to the deepest common directory (the `back` count), then descending.
+ *
+ * @example
+ * ```ts
+ * relative(absDir('/a/b/'), absFile('/a/c/d.ts'))  // RelFile ../c/d.ts
+ * relative(absDir('/a/'), absDir('/a/b/'))         // RelDir ./b/
+ * relative(absDir('/a/b/'), absDir('/a/b/'))       // RelDir ./
+ * ```
+ */
+export const relative = <To extends Abs>(from: AbsDir, to: To): Relative<To> => {
+  const shared = commonPrefixLength(from.segments, to.segments)
+  const back = from.segments.length - shared
+  const segments = to.segments.slice(shared)
+  return (
+    S.is(AbsFile)(to)
+      ? RelFile.make({ back, segments, fileName: to.fileName })
+      : RelDir.make({ back, segments })
+  ) as Relative<To>
+}
+
+/**
+ * Whether `ancestor` strictly contains `path` (a directory is not its own ancestor).
+ *
+ * @example
+ * ```ts
+ * isAncestorOf(absDir('/a/'), absFile('/a/b/c.ts'))  // true
+ * isAncestorOf(absDir('/a/'), absDir('/a/'))         // false
+ * ```
+ */
+export const isAncestorOf = (ancestor: AbsDir, path: Abs): boolean => {
+  const depth = ancestor.segments.length
+  const reachable = S.is(AbsFile)(path)
+    ? depth <= path.segments.length
+    : depth < path.segments.length
+  return reachable && commonPrefixLength(ancestor.segments, path.segments) === depth
+}
+
+/** Whether `path` is strictly contained by `ancestor` — the flip of {@link isAncestorOf}. */
+export const isDescendantOf = (path: Abs, ancestor: AbsDir): boolean => isAncestorOf(ancestor, path)
+
+/**
+ * Whether two distinct paths share the same parent directory. The root has no
+ * parent, so it is nobody's sibling.
+ *
+ * @example
+ * ```ts
+ * isSibling(absFile('/a/x.ts'), absDir('/a/b/'))  // true
+ * isSibling(absFile('/a/x.ts'), absFile('/a/x.ts'))  // false
+ * ```
+ */
+export const isSibling = (a: Abs, b: Abs): boolean => {
+  const aParent = parentSegments(a)
+  const bParent = parentSegments(b)
+  if (aParent === null || bParent === null || aParent.length !== bParent.length) return false
+  if (commonPrefixLength(aParent, bParent) !== aParent.length) return false
+  return S.encodeSync(Abs)(a) !== S.encodeSync(Abs)(b)
+}
+
+/**
+ * The deepest directory containing both paths. A directory counts as containing
+ * itself, so the common ancestor of `/a/b/` and `/a/b/c.ts` is `/a/b/`.
+ *
+ * @example
+ * ```ts
+ * commonAncestor(absFile('/a/b/x.ts'), absFile('/a/c/y.ts'))  // AbsDir /a/
+ * commonAncestor(absFile('/x.ts'), absDir('/y/'))             // AbsDir /
+ * ```
+ */
+export const commonAncestor = (a: Abs, b: Abs): AbsDir =>
+  // A file's `segments` are its directory's, so both kinds compare the same way.
+  AbsDir.make({ segments: a.segments.slice(0, commonPrefixLength(a.segments, b.segments)) })
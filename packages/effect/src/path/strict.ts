@@ -0,0 +1,14 @@
+import { Result, Schema as S } from 'effect'
+import { analyzeStrict } from './analyzer.js'
+
+const canonical = S.makeFilter<string>((input) =>
+  Result.match(analyzeStrict(input), { onFailure: (issue) => issue, onSuccess: () => undefined }),
+)
+
+/**
+ * Wrap a path-string codec so decoding rejects non-canonical input (`a//b`,
+ * `a/./b`, `a/../b`) instead of repairing it. Encoding is unchanged — the codecs
+ * only ever format canonical strings.
+ */
+export const strict = <To extends S.Codec<unknown, string>>(to: To) =>
+  S.String.pipe(S.check(canonical), S.decodeTo(to))
@@ -0,0 +1,21 @@
+// Member schemas: absolute paths decode to root-carrying values, relative paths
+// to the shared POSIX `RelFile`/`RelDir` values.
+export { AbsDir } from './models/AbsDir.js'
+export { AbsFile } from './models/AbsFile.js'
+export { RelDir } from './models/RelDir.js'
+export { RelFile } from './models/RelFile.js'
+
+// Top-level union schema of all win32 path variants (surfaces as `Path.Win32.Schema`)
+export { Path as Schema } from './models/Path.js'
+
+// Roots
+export * from './models/Root.js'
+
+// Lossless conversion to and from the POSIX ADT
+export * from './posix.js'
+
+// Errors
+export * from './errors.js'
+
+// Analyzer — parse/validate/format of win32 path strings (surfaces as `Path.Win32.Analyzer`)
+export * as Analyzer from './analyzer.js'
@@ -0,0 +1,59 @@
+import { Result, Schema as S } from 'effect'
+import { describe, expect, it } from '@kitz/vitest'
+import { Path } from '../_.js'
+import { analyze } from './analyzer.js'
+
+const Win32 = Path.Win32
+
+describe('analyze', () => {
+  it.each([
+    ['c:\\src\\index.ts', { _tag: 'Drive', letter: 'C' }],
+    ['C:/src/index.ts', { _tag: 'Drive', letter: 'C' }],
+    ['\\\\srv\\share\\docs\\', { _tag: 'Unc', server: 'srv', share: 'share' }],
+    ['//srv/share', { _tag: 'Unc', server: 'srv', share: 'share' }],
+    ['..\\lib\\', null],
+  ] as const)('%s has root %o', (input, root) => {
+    expect(Result.getOrThrow(analyze(input)).root).toEqual(root)
+  })
+
+  it.each([
+    ['C:foo', 'drive-relative'],
+    ['\\foo', 'Expected a drive letter or UNC root'],
+    ['\\\\?\\C:\\a\\', 'are not supported'],
+    ['\\\\.\\C:\\', 'are not supported'],
+    ['C:\\a\\b:c\\', '(found "b:c")'],
+    ['a*b\\', '(found "a*b")'],
+    ['C:\\a\\b?.txt', '(found "b?.txt")'],
+    ['\\\\s|v\\share\\', '(found "s|v")'],
+  ])('rejects %s', (input, message) => {
+    const result = analyze(input)
+    expect(Result.isFailure(result)).toBe(true)
+    expect(String(Result.isFailure(result) && result.failure)).toContain(message)
+  })
+})
+
+describe('Schema', () => {
+  it.each([
+    'C:\\Users\\me\\file.txt',
+    'C:\\',
+    '\\\\srv\\share\\docs\\',
+    '.\\src\\index.ts',
+    '..\\lib\\',
+  ])('round-trips %s', (input) => {
+    const decoded = S.decodeSync(Win32.Schema)(input)
+    expect(S.encodeSync(Win32.Schema)(decoded)).toBe(input)
+  })
+
+  it('normalizes the drive letter and forward slashes on decode', () => {
+    expect(S.encodeSync(Win32.Schema)(S.decodeSync(Win32.Schema)('c:/a/b.txt'))).toBe(
+      'C:\\a\\b.txt',
+    )
+  })
+
+  it('rejects reserved characters in constructed segments', () => {
+    expect(() =>
+      Win32.AbsDir.make({ root: new Win32.Drive({ letter: 'C' }), segments: ['a\\b'] }),
+    ).toThrow()
+    expect(() => new Win32.Unc({ server: 'srv', share: 'a:b' })).toThrow()
+  })
+})
@@ -0,0 +1,176 @@
+import { Option, Result, SchemaIssue } from 'effect'
+import * as Posix from '../analyzer.js'
+import { reservedPattern } from './models/segment.js'
+
+// Win32 accepts both separators on input; output always uses the backslash.
+const separator = '\\'
+const posixSeparator = '/'
+
+/** Drive-letter root (`C:\`) with an absolute body. Letters are case-insensitive. */
+const drivePattern = /^([A-Za-z]):[\\/]/
+/** UNC root (`\\server\share\`); the trailing separator after the share is optional. */
+const uncPattern = /^[\\/]{2}([^\\/]+)[\\/]+([^\\/]+)(?:[\\/]+|$)/
+/** Verbatim (`\\?\`) and device (`\\.\`) prefixes, which switch off win32's own path parsing. */
+const verbatimPattern = /^[\\/]{2}[?.][\\/]/
+/** Drive-relative (`C:foo`) — relative to the drive's cwd, which a string can't carry. */
+const driveRelativePattern = /^[A-Za-z]:/
+
+/** The root of an absolute win32 path, as plain data (the `Root` codec owns the value form). */
+export type RootEncoded =
+  | { _tag: 'Drive'; letter: string }
+  | { _tag: 'Unc'; server: string; share: string }
+
+/**
+ * A win32 path string analyzed into its root (absent for relative paths) and the
+ * POSIX {@link Posix.Analysis} of its body — so the segment algebra stays shared.
+ */
+export interface Analysis {
+  root: RootEncoded | null
+  body: Posix.Analysis
+}
+
+const invalid = (input: string, message: string): SchemaIssue.Issue =>
+  new SchemaIssue.InvalidValue(Option.some(input), {
+    message: `${message}, received ${JSON.stringify(input)}`,
+  })
+
+const toPosixBody = (rest: string): string => rest.replaceAll(separator, posixSeparator)
+
+/** The first name (UNC server or share, segment, file name) holding a character win32 reserves. */
+const reservedName = (analysis: Analysis): string | undefined =>
+  [
+    ...(analysis.root?._tag === 'Unc' ? [analysis.root.server, analysis.root.share] : []),
+    ...analysis.body.segments,
+    ...(analysis.body._tag === 'file' ? [analysis.body.fileName] : []),
+  ].find((name) => reservedPattern.test(name))
+
+/** Split off the root and analyze the body, before the names are checked. */
+const analyzeRoot = (
+  input: string,
+  options?: Posix.AnalyzerOptions,
+): Result.Result<Analysis, SchemaIssue.Issue> => {
+  if (verbatimPattern.test(input)) {
+    return Result.fail(
+      invalid(
+        input,
+        'Expected a drive letter or UNC root (\\\\?\\ and \\\\.\\ paths are not supported)',
+      ),
+    )
+  }
+
+  const unc = uncPattern.exec(input)
+  if (unc) {
+    const body = Posix.analyze(
+      `${posixSeparator}${toPosixBody(input.slice(unc[0].length))}`,
+      options,
+    )
+    return Result.succeed({ root: { _tag: 'Unc', server: unc[1]!, share: unc[2]! }, body })
+  }
+
+  const drive = drivePattern.exec(input)
+  if (drive) {
+    const body = Posix.analyze(toPosixBody(input.slice(drive[0].length - 1)), options)
+    return Result.succeed({ root: { _tag: 'Drive', letter: drive[1]!.toUpperCase() }, body })
+  }
+
+  if (driveRelativePattern.test(input)) {
+    return Result.fail(
+      invalid(input, 'Expected an absolute drive path like C:\\, not drive-relative'),
+    )
+  }
+  if (input.startsWith(separator) || input.startsWith(posixSeparator)) {
+    return Result.fail(invalid(input, 'Expected a drive letter or UNC root'))
+  }
+
+  return Result.succeed({ root: null, body: Posix.analyze(toPosixBody(input), options) })
+}
+
+/**
+ * Parse a win32 path string. Drive letters are upper-cased; backslashes and
+ * forward slashes are both separators. Drive-relative (`C:foo`) and root-relative
+ * (`\foo`) forms depend on process state no string carries, so they fail; so do
+ * verbatim (`\\?\`) and device (`\\.\`) paths, and names holding a character
+ * win32 reserves (`: * ? " < > |`).
+ *
+ * @example
+ * ```ts
+ * analyze('c:\\src\\index.ts')       // Success({ root: { _tag: 'Drive', letter: 'C' }, body: { _tag: 'file', segments: ['src'], … } })
+ * analyze('\\\\srv\\share\\docs\\')  // Success({ root: { _tag: 'Unc', server: 'srv', share: 'share' }, body: { _tag: 'dir', … } })
+ * analyze('..\\lib\\')               // Success({ root: null, body: { _tag: 'dir', back: 1, segments: ['lib'] } })
+ * analyze('C:\\a\\b:c\\')            // Failure(InvalidValue: Expected names without … (found "b:c") …)
+ * ```
+ */
+export function analyze(
+  input: string,
+  options?: Posix.AnalyzerOptions,
+): Result.Result<Analysis, SchemaIssue.Issue> {
+  return Result.flatMap(analyzeRoot(input, options), (analysis) => {
+    const reserved = reservedName(analysis)
+    return reserved === undefined
+      ? Result.succeed(analysis)
+      : Result.fail(
+          invalid(
+            input,
+            `Expected names without \\ : * ? " < > | or control characters (found ${JSON.stringify(reserved)})`,
+          ),
+        )
+  })
+}
+
+/**
+ * The core curried validator, mirroring the POSIX one: parse `input`, narrow its
+ * body to `kind`, and require the given absoluteness (a root ⇔ absolute).
+ */
+const analyzeAs =
+  <K extends Posix.Analysis['_tag']>(kind: K) =>
+  (anchoring: 'absolute' | 'relative') =>
+  (
+    input: string,
+  ): Result.Result<
+    { root: RootEncoded | null; body: Extract<Posix.Analysis, { _tag: K }> },
+    SchemaIssue.Issue
+  > =>
+    Result.flatMap(analyze(input, { hint: kind }), (analysis) =>
+      analysis.body._tag !== kind
+        ? Result.fail(
+            invalid(input, kind === 'dir' ? 'Expected a directory path' : 'Expected a file path'),
+          )
+        : (analysis.root !== null) !== (anchoring === 'absolute')
+          ? Result.fail(
+              invalid(
+                input,
+                anchoring === 'absolute' ? 'Expected an absolute path' : 'Expected a relative path',
+              ),
+            )
+          : Result.succeed({
+              root: analysis.root,
+              body: analysis.body as Extract<Posix.Analysis, { _tag: K }>,
+            }),
+    )
+
+/** Require a win32 file of the given absoluteness. */
+export const analyzeFile = analyzeAs('file')
+
+/** Require a win32 directory of the given absoluteness. */
+export const analyzeDir = analyzeAs('dir')
+
+/** The string form of a root, without its trailing separator (`C:`, `\\srv\share`). */
+const formatRoot = (root: RootEncoded): string =>
+  root._tag === 'Drive'
+    ? `${root.letter.toUpperCase()}:`
+    : `${separator}${separator}${root.server}${separator}${root.share}`
+
+/**
+ * Build a win32 path string — the inverse of {@link analyze}. Same curried shape
+ * as the POSIX `format`, with the root standing in for `isPathAbsolute`.
+ */
+export const format =
+  (parts: { root: RootEncoded | null; back: number; fileName?: string | null }) =>
+  (segments: readonly string[]): string => {
+    const body = Posix.format({
+      isPathAbsolute: parts.root !== null,
+      back: parts.back,
+      fileName: parts.fileName ?? null,
+    })(segments).replaceAll(posixSeparator, separator)
+    return parts.root === null ? body : `${formatRoot(parts.root)}${body}`
+  }
@@ -0,0 +1,20 @@
+import { Schema as S } from 'effect'
+
+/**
+ * A POSIX path has no win32 spelling — it isn't rooted at a drive (`/C:/`) or UNC
+ * share (`/UNC/srv/share/`), or one of its names holds a character win32 reserves
+ * (`C:\a\b` would read `a\b` back as two segments).
+ */
+export class UnrepresentableError extends S.TaggedErrorClass<UnrepresentableError>()(
+  'UnrepresentableError',
+  {
+    /** The POSIX path, as a string. */
+    path: S.String,
+    /** Why it can't be spelled on win32. */
+    reason: S.String,
+  },
+) {
+  override get message() {
+    return `Cannot spell ${JSON.stringify(this.path)} as a win32 path: ${this.reason}`
+  }
+}
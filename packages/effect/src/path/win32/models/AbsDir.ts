@@ -0,0 +1,50 @@
+import { Effect, flow, Result, Schema as S, SchemaGetter } from 'effect'
+import { Segment as PosixSegment } from '../../models/segment.js'
+import { analyzeDir, format } from '../analyzer.js'
+import { Root } from './Root.js'
+import { Segment } from './segment.js'
+
+/**
+ * Absolute win32 directory value — the root it hangs off plus the decoded segments.
+ */
+class AbsDir__ extends S.TaggedClass<AbsDir__>()('Win32AbsDir', {
+  root: Root,
+  segments: S.Array(Segment).pipe(S.withConstructorDefault(Effect.succeed([]))),
+}) {
+  /** The directory name (last segment), or empty string for a root. */
+  get name() {
+    return PosixSegment.basename(this.segments)
+  }
+}
+
+/**
+ * `Win32.AbsDir` — an absolute win32 directory path, as a `string` ⇄ value codec.
+ *
+ * @example
+ * ```ts
+ * const dir = S.decodeSync(Win32.AbsDir)('C:\\Users\\me\\')
+ * ```
+ */
+export class AbsDir_ extends S.asClass(
+  S.String.pipe(
+    S.decodeTo(AbsDir__, {
+      encode: SchemaGetter.transform((encoded) =>
+        format({ root: encoded.root, back: 0 })(encoded.segments),
+      ),
+      decode: SchemaGetter.transformOrFail(
+        flow(
+          analyzeDir('absolute'),
+          Result.map((analysis) => ({
+            _tag: 'Win32AbsDir' as const,
+            root: analysis.root!,
+            segments: analysis.body.segments,
+          })),
+          Effect.fromResult,
+        ),
+      ),
+    }),
+  ),
+) {}
+
+export const AbsDir = AbsDir_
+export type AbsDir = typeof AbsDir_.Type
@@ -0,0 +1,46 @@
+import { Effect, flow, Result, Schema as S, SchemaGetter } from 'effect'
+import { analyzeFile, format } from '../analyzer.js'
+import { Root } from './Root.js'
+import { FileName, Segment } from './segment.js'
+
+/**
+ * Absolute win32 file value — the root it hangs off plus the decoded segments and filename.
+ */
+class AbsFile__ extends S.TaggedClass<AbsFile__>()('Win32AbsFile', {
+  root: Root,
+  segments: S.Array(Segment).pipe(S.withConstructorDefault(Effect.succeed([]))),
+  fileName: FileName,
+}) {}
+
+/**
+ * `Win32.AbsFile` — an absolute win32 file path, as a `string` ⇄ value codec.
+ *
+ * @example
+ * ```ts
+ * const file = S.decodeSync(Win32.AbsFile)('C:\\Users\\me\\notes.txt')
+ * ```
+ */
+export class AbsFile_ extends S.asClass(
+  S.String.pipe(
+    S.decodeTo(AbsFile__, {
+      encode: SchemaGetter.transform((encoded) =>
+        format({ root: encoded.root, back: 0, fileName: encoded.fileName })(encoded.segments),
+      ),
+      decode: SchemaGetter.transformOrFail(
+        flow(
+          analyzeFile('absolute'),
+          Result.map((analysis) => ({
+            _tag: 'Win32AbsFile' as const,
+            root: analysis.root!,
+            segments: analysis.body.segments,
+            fileName: analysis.body.fileName,
+          })),
+          Effect.fromResult,
+        ),
+      ),
+    }),
+  ),
+) {}
+
+export const AbsFile = AbsFile_
+export type AbsFile = typeof AbsFile_.Type
@@ -0,0 +1,27 @@
+import { Schema as S } from 'effect'
+import { AbsDir } from './AbsDir.js'
+import { AbsFile } from './AbsFile.js'
+import { RelDir } from './RelDir.js'
+import { RelFile } from './RelFile.js'
+
+/**
+ * Union schema of all win32 path types. Absolute strings decode to the
+ * root-carrying `Win32.AbsFile`/`Win32.AbsDir`; relative strings decode to the
+ * shared `RelFile`/`RelDir` values.
+ *
+ * @example
+ * ```ts
+ * const p1 = S.decodeSync(Path)('C:\\Users\\me\\file.txt')  // Win32.AbsFile
+ * const p2 = S.decodeSync(Path)('\\\\srv\\share\\docs\\')   // Win32.AbsDir
+ * const p3 = S.decodeSync(Path)('src\\index.ts')            // RelFile
+ * ```
+ */
+class Path_ extends S.asClass(S.Union([AbsFile, AbsDir, RelFile, RelDir])) {
+  static readonly AbsFile = AbsFile
+  static readonly AbsDir = AbsDir
+  static readonly RelFile = RelFile
+  static readonly RelDir = RelDir
+}
+
+export const Path = Path_
+export type Path = typeof Path_.Type
@@ -0,0 +1,37 @@
+import { Effect, flow, Result, Schema as S, SchemaGetter } from 'effect'
+import { RelDir as PosixRelDir } from '../../models/RelDir.js'
+import { analyzeDir, format } from '../analyzer.js'
+
+/**
+ * `Win32.RelDir` — a relative win32 directory path (`..\src\`), as a `string` ⇄
+ * `RelDir` value codec. Relative paths have no root, so they decode into the
+ * same `RelDir` value as their POSIX spelling.
+ *
+ * @example
+ * ```ts
+ * const dir = S.decodeSync(Win32.RelDir)('..\\src\\')  // RelDir { back: 1, segments: ['src'] }
+ * ```
+ */
+export class RelDir_ extends S.asClass(
+  S.String.pipe(
+    S.decodeTo(PosixRelDir.to, {
+      encode: SchemaGetter.transform((encoded) =>
+        format({ root: null, back: encoded.back })(encoded.segments),
+      ),
+      decode: SchemaGetter.transformOrFail(
+        flow(
+          analyzeDir('relative'),
+          Result.map((analysis) => ({
+            _tag: 'RelDir' as const,
+            back: analysis.body.back,
+            segments: analysis.body.segments,
+          })),
+          Effect.fromResult,
+        ),
+      ),
+    }),
+  ),
+) {}
+
+export const RelDir = RelDir_
+export type RelDir = typeof RelDir_.Type
@@ -0,0 +1,38 @@
+import { Effect, flow, Result, Schema as S, SchemaGetter } from 'effect'
+import { RelFile as PosixRelFile } from '../../models/RelFile.js'
+import { analyzeFile, format } from '../analyzer.js'
+
+/**
+ * `Win32.RelFile` — a relative win32 file path (`src\index.ts`), as a `string` ⇄
+ * `RelFile` value codec. Relative paths have no root, so they decode into the
+ * same `RelFile` value as their POSIX spelling.
+ *
+ * @example
+ * ```ts
+ * const file = S.decodeSync(Win32.RelFile)('src\\index.ts')
+ * ```
+ */
+export class RelFile_ extends S.asClass(
+  S.String.pipe(
+    S.decodeTo(PosixRelFile.to, {
+      encode: SchemaGetter.transform((encoded) =>
+        format({ root: null, back: encoded.back, fileName: encoded.fileName })(encoded.segments),
+      ),
+      decode: SchemaGetter.transformOrFail(
+        flow(
+          analyzeFile('relative'),
+          Result.map((analysis) => ({
+            _tag: 'RelFile' as const,
+            back: analysis.body.back,
+            segments: analysis.body.segments,
+            fileName: analysis.body.fileName,
+          })),
+          Effect.fromResult,
+        ),
+      ),
+    }),
+  ),
+) {}
+
+export const RelFile = RelFile_
+export type RelFile = typeof RelFile_.Type
@@ -0,0 +1,20 @@
+import { Schema as S } from 'effect'
+import { Segment } from './segment.js'
+
+/** A drive-letter root (`C:\`). The letter is stored upper-case; input is case-insensitive. */
+export class Drive extends S.TaggedClass<Drive>()('Drive', {
+  letter: S.String.pipe(S.check(S.isPattern(/^[A-Z]$/))),
+}) {}
+
+/** A UNC root (`\\server\share\`). */
+export class Unc extends S.TaggedClass<Unc>()('Unc', {
+  server: Segment,
+  share: Segment,
+}) {}
+
+/**
+ * `Root` — where an absolute win32 path is anchored: a drive or a UNC share.
+ * POSIX paths have the single root `/`, so only the win32 ADT carries one.
+ */
+export const Root = S.Union([Drive, Unc])
+export type Root = typeof Root.Type
@@ -0,0 +1,35 @@
+import { Option, Schema as S } from 'effect'
+import { FileName as PosixFileName } from '../../models/FileName.js'
+import { Segment as PosixSegment } from '../../models/segment.js'
+
+/**
+ * Characters win32 reserves in a name: both separators, the drive colon, the
+ * wildcard and redirection characters, and control characters. A name holding
+ * one would be split, re-rooted or unopenable once spelled with backslashes.
+ */
+export const reservedPattern = /[\\/:*?"<>|\u0000-\u001f]/
+
+const reservedMessage = 'cannot contain \\ : * ? " < > | or control characters'
+
+/**
+ * A win32 path segment: a POSIX {@link PosixSegment | Segment} that also avoids the
+ * {@link reservedPattern | reserved characters}.
+ */
+export const Segment = PosixSegment.pipe(
+  S.check(
+    S.makeFilter((name: string) => !reservedPattern.test(name), {
+      message: `A win32 path segment ${reservedMessage}`,
+    }),
+  ),
+)
+
+/** A file name (stem plus extension) spelled without the reserved characters. */
+export const FileName = PosixFileName.pipe(
+  S.check(
+    S.makeFilter(
+      (name: typeof PosixFileName.Type) =>
+        !reservedPattern.test(`${name.stem}${Option.getOrElse(name.extension, () => '')}`),
+      { message: `A win32 file name ${reservedMessage}` },
+    ),
+  ),
+)
@@ -0,0 +1,38 @@
+import { Result, Schema as S } from 'effect'
+import { describe, expect, it } from '@kitz/vitest'
+import { Path } from '../_.js'
+
+const Win32 = Path.Win32
+
+describe('toPosix / fromPosix', () => {
+  it.each([
+    ['C:\\a\\b.txt', '/C:/a/b.txt'],
+    ['C:\\', '/C:/'],
+    ['\\\\srv\\share\\docs\\', '/UNC/srv/share/docs/'],
+    ['src\\index.ts', './src/index.ts'],
+  ])('%s ⇄ %s', (win32, posix) => {
+    const value = S.decodeSync(Win32.Schema)(win32)
+    const converted = Win32.toPosix(value)
+    expect(S.encodeSync(Path.Schema)(converted)).toBe(posix)
+    expect(Win32.fromPosix(converted)).toSucceedWith(value)
+  })
+
+  it('accepts a lower-case drive segment', () => {
+    const converted = Result.getOrThrow(Win32.fromPosix(Path.fromLiteral('/c:/a/')))
+    expect(S.encodeSync(Win32.Schema)(converted)).toBe('C:\\a\\')
+  })
+
+  it.each([
+    ['an unrooted path', Path.fromLiteral('/a/'), 'not rooted'],
+    ['a UNC marker without a share', Path.fromLiteral('/UNC/srv/'), 'not rooted'],
+    ['a backslash in a segment', Path.AbsDir.make({ segments: ['C:', 'a\\b'] }), '"a\\\\b"'],
+    ['a colon in a segment', Path.fromLiteral('/C:/a/b:c/'), '"b:c"'],
+    ['a reserved UNC share', Path.AbsDir.make({ segments: ['UNC', 'srv', 'a*b'] }), '"a*b"'],
+    ['a reserved file name', Path.fromLiteral('/C:/a/b?.txt'), '"b?.txt"'],
+    ['a reserved relative segment', Path.fromLiteral('./a|b/'), '"a|b"'],
+  ])('fails for %s', (_, path, reason) => {
+    expect(Win32.fromPosix(path)).toFailWithTag('UnrepresentableError')
+    const result = Win32.fromPosix(path)
+    expect(Result.isFailure(result) && result.failure.message).toContain(reason)
+  })
+})
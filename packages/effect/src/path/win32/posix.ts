@@ -0,0 +1,119 @@
+import { Result, Schema as S } from 'effect'
+import { Abs } from '../models/Abs.js'
+import { AbsDir as PosixAbsDir } from '../models/AbsDir.js'
+import { AbsFile as PosixAbsFile } from '../models/AbsFile.js'
+import { File as PosixFile } from '../models/File.js'
+import { FileName as PosixFileName } from '../models/FileName.js'
+import { Path as PosixPathSchema } from '../models/Path.js'
+import { UnrepresentableError } from './errors.js'
+import { AbsDir } from './models/AbsDir.js'
+import { AbsFile } from './models/AbsFile.js'
+import type { Path } from './models/Path.js'
+import { Drive, type Root, Unc } from './models/Root.js'
+import { reservedPattern } from './models/segment.js'
+
+type PosixPath = typeof PosixPathSchema.Type
+
+/**
+ * Leading POSIX segment marking a UNC root, borrowed from win32's own long-path
+ * spelling (`\\?\UNC\server\share`): `\\srv\share\a` ⇄ `/UNC/srv/share/a`.
+ * Drives map to a `X:` segment: `C:\a` ⇄ `/C:/a`.
+ */
+const uncMarker = 'UNC'
+const driveSegmentPattern = /^([A-Za-z]):$/
+
+/** The POSIX counterpart of a win32 path kind: roots fold into leading segments, relative paths are shared. */
+export type ToPosix<P extends Path> = P extends AbsFile
+  ? PosixAbsFile
+  : P extends AbsDir
+    ? PosixAbsDir
+    : P
+
+/** The win32 counterpart of a POSIX path kind (the inverse of {@link ToPosix}). */
+export type FromPosix<P extends PosixPath> = P extends PosixAbsFile
+  ? AbsFile
+  : P extends PosixAbsDir
+    ? AbsDir
+    : P
+
+const rootSegments = (root: Root): string[] =>
+  root._tag === 'Drive' ? [`${root.letter}:`] : [uncMarker, root.server, root.share]
+
+/** Split the leading root segments off a POSIX absolute path, if they spell a win32 root. */
+const takeRoot = (
+  segments: readonly string[],
+): { root: Root; segments: readonly string[] } | null => {
+  const [first, ...rest] = segments
+  const drive = first === undefined ? null : driveSegmentPattern.exec(first)
+  if (drive) return { root: new Drive({ letter: drive[1]!.toUpperCase() }), segments: rest }
+  const [server, share, ...body] = rest
+  if (first === uncMarker && server !== undefined && share !== undefined) {
+    return { root: new Unc({ server, share }), segments: body }
+  }
+  return null
+}
+
+/**
+ * Convert a win32 path to its POSIX form. The root becomes leading segments
+ * (`C:\a\b.txt` → `/C:/a/b.txt`, `\\srv\share\a\` → `/UNC/srv/share/a/`), so the
+ * conversion is lossless; {@link fromPosix} reverses it. Relative paths are shared
+ * between the two ADTs and pass through unchanged.
+ */
+export const toPosix = <P extends Path>(path: P): ToPosix<P> => {
+  if (S.is(AbsFile)(path)) {
+    return PosixAbsFile.make({
+      segments: [...rootSegments(path.root), ...path.segments],
+      fileName: path.fileName,
+    }) as ToPosix<P>
+  }
+  if (S.is(AbsDir)(path)) {
+    return PosixAbsDir.make({
+      segments: [...rootSegments(path.root), ...path.segments],
+    }) as ToPosix<P>
+  }
+  return path as ToPosix<P>
+}
+
+/**
+ * Convert a POSIX path to win32 — the inverse of {@link toPosix}. An absolute path
+ * must start with a drive segment (`/C:/`, case-insensitive) or a UNC triple
+ * (`/UNC/srv/share/`), and no name may hold a character win32 reserves (`a\b`,
+ * `b:c`); anything else has no win32 spelling and fails with
+ * {@link UnrepresentableError}.
+ *
+ * @example
+ * ```ts
+ * fromPosix(absFile('/C:/a/b.txt'))                          // Success(Win32.AbsFile C:\a\b.txt)
+ * fromPosix(AbsDir.make({ segments: ['C:', 'a\\b'] }))      // Failure(UnrepresentableError)
+ * ```
+ */
+export const fromPosix = <P extends PosixPath>(
+  path: P,
+): Result.Result<FromPosix<P>, UnrepresentableError> => {
+  const unrepresentable = (reason: string) =>
+    Result.fail(new UnrepresentableError({ path: S.encodeSync(PosixPathSchema)(path), reason }))
+
+  // Vet names before taking the root: a UNC server or share is a win32 `Segment` too.
+  const [first, ...rest] = path.segments
+  const names = [
+    ...(S.is(Abs)(path) && first !== undefined && driveSegmentPattern.test(first)
+      ? rest
+      : path.segments),
+    ...(S.is(PosixFile)(path) ? [S.encodeSync(PosixFileName)(path.fileName)] : []),
+  ]
+  const reserved = names.find((name) => reservedPattern.test(name))
+  if (reserved !== undefined) {
+    return unrepresentable(`${JSON.stringify(reserved)} holds a character win32 reserves`)
+  }
+
+  const taken = S.is(Abs)(path) ? takeRoot(path.segments) : { root: null, segments: path.segments }
+  if (taken === null) {
+    return unrepresentable(`it is not rooted at /X:/ or /${uncMarker}/server/share/`)
+  }
+
+  if (taken.root === null) return Result.succeed(path as FromPosix<P>)
+  const converted = S.is(PosixAbsFile)(path)
+    ? AbsFile.make({ root: taken.root, segments: taken.segments, fileName: path.fileName })
+    : AbsDir.make({ root: taken.root, segments: taken.segments })
+  return Result.succeed(converted as FromPosix<P>)
+}
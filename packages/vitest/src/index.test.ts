@@ -0,0 +1,199 @@
+import { Clock, Console, Context, Data, Effect, Fiber, Layer, Schema, SchemaGetter } from 'effect'
+import { FastCheck, TestClock, TestConsole } from 'effect/testing'
+import { afterAll, beforeAll, describe, expect, expectTypeOf, it, vi } from './index.js'
+
+class Boom extends Data.TaggedError('Boom')<{ readonly n: number }> {}
+
+class Counter extends Context.Service<Counter, { runs: number }>()('Counter') {}
+
+describe('it.prop', () => {
+  let runs = 0
+  it.prop('counts', [FastCheck.integer()], () => Effect.sync(() => void runs++), {
+    parameters: { numRuns: 7 },
+  })
+  it('honors per-test parameters', () => {
+    expect(runs).toBe(7)
+  })
+
+  it.prop(
+    'reports a defect with its counterexample, how to replay it and the Cause',
+    [FastCheck.integer()],
+    ([n]) => Effect.sync(() => expect(n).toBeLessThan(10)),
+    {
+      fails: (report) => {
+        expect(report).toContain('Counterexample: [10]')
+        expect(report).toMatch(
+          /Replay with: KITZ_PROP_TEST='it\.prop > reports a defect with its counterexample, how to replay it and the Cause' KITZ_PROP_SEED=-?\d+ KITZ_PROP_PATH=[\d:]+/,
+        )
+        expect(report).toContain('Cause:\nAssertionError: expected 10 to be less than 10')
+      },
+    },
+  )
+  it.prop(
+    'reports a typed failure with its Cause',
+    [FastCheck.nat()],
+    ([n]) => (n > 3 ? Effect.fail(new Boom({ n })) : Effect.void),
+    {
+      fails: (report) => {
+        expect(report).toContain('Counterexample: [4]')
+        expect(report).toMatch(/Cause:\n.*Boom/)
+      },
+    },
+  )
+})
+
+describe('it.prop replay', () => {
+  const expected = FastCheck.sample(FastCheck.integer(), { seed: 42, numRuns: 20 })
+  const seen = { targeted: [] as number[], other: [] as number[], explicit: [] as number[] }
+  beforeAll(() => {
+    vi.stubEnv('KITZ_PROP_TEST', 'it.prop replay > targeted')
+    vi.stubEnv('KITZ_PROP_SEED', '42')
+  })
+  afterAll(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it.prop(
+    'targeted',
+    [FastCheck.integer()],
+    ([n]) => Effect.sync(() => void seen.targeted.push(n)),
+    { parameters: { numRuns: 20 } },
+  )
+  it.prop('other', [FastCheck.integer()], ([n]) => Effect.sync(() => void seen.other.push(n)), {
+    parameters: { numRuns: 20 },
+  })
+  it('replays the seed only for the test KITZ_PROP_TEST names', () => {
+    expect(seen.targeted).toEqual(expected)
+    expect(seen.other).not.toEqual(expected)
+  })
+})
+
+describe('it.prop replay under explicit parameters', () => {
+  const seen: number[] = []
+  beforeAll(() => {
+    vi.stubEnv('KITZ_PROP_TEST', 'it.prop replay under explicit parameters > explicit')
+    vi.stubEnv('KITZ_PROP_SEED', '42')
+  })
+  afterAll(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it.prop('explicit', [FastCheck.integer()], ([n]) => Effect.sync(() => void seen.push(n)), {
+    parameters: { seed: 7, numRuns: 5 },
+  })
+  it('lets the test’s own parameters win', () => {
+    expect(seen).toEqual(FastCheck.sample(FastCheck.integer(), { seed: 7, numRuns: 5 }))
+  })
+})
+
+it.layer(
+  Layer.sync(Counter)(() => ({ runs: 0 })),
+  { parameters: { numRuns: 5 } },
+)('it.prop in a layer suite', (it) => {
+  it.prop('uses the suite default', [FastCheck.nat()], () =>
+    Effect.gen(function* () {
+      const counter = yield* Counter
+      counter.runs++
+    }),
+  )
+  it.prop(
+    'overrides it per test',
+    [FastCheck.nat()],
+    () =>
+      Effect.gen(function* () {
+        const counter = yield* Counter
+        counter.runs++
+      }),
+    { parameters: { numRuns: 3 } },
+  )
+  it.effect('ran 5 + 3 cases', () =>
+    Effect.gen(function* () {
+      expect((yield* Counter).runs).toBe(8)
+    }),
+  )
+})
+
+describe('it.schema', () => {
+  const Trimmed = Schema.String.pipe(
+    Schema.decodeTo(Schema.String, {
+      decode: SchemaGetter.transform((input: string) => input.trim()),
+      encode: SchemaGetter.passthrough(),
+    }),
+  )
+  const trimmed = FastCheck.string().map((text) => text.trim())
+
+  it.schema('Point', Schema.Struct({ x: Schema.Number, label: Schema.String }))
+
+  it.schema('Trimmed', Trimmed, {
+    arbitrary: trimmed,
+    inputs: FastCheck.string(),
+    parameters: { numRuns: 50 },
+  })
+
+  // Decoding appends a `!` encoding never removes, so every law breaks.
+  const Exclaimed = Schema.String.pipe(
+    Schema.decodeTo(Schema.String, {
+      decode: SchemaGetter.transform((input: string) => `${input}!`),
+      encode: SchemaGetter.passthrough(),
+    }),
+  )
+  it.schema('Exclaimed', Exclaimed, {
+    fails: (report, law) => {
+      expect(report).toContain('Counterexample: [""]')
+      expect(report).toContain(`Replay with: KITZ_PROP_TEST='it.schema > Exclaimed > ${law}'`)
+    },
+  })
+
+  it.schema(
+    'Opaque',
+    Schema.declare((input): input is symbol => typeof input === 'symbol'),
+    {
+      fails: (report) => {
+        expect(report).toContain(
+          'Cannot derive an arbitrary for Opaque; pass one with the `arbitrary` option',
+        )
+      },
+    },
+  )
+})
+
+describe('it.effect.each', () => {
+  const cases = [
+    { input: 2, doubled: 4 },
+    { input: 5, doubled: 10 },
+  ]
+
+  it.effect.each(cases)('doubles $input to $doubled', ({ input, doubled }, { task }) =>
+    Effect.sync(() => {
+      expectTypeOf(input).toEqualTypeOf<number>()
+      expect(input * 2).toBe(doubled)
+      expect(task.name).toBe(`doubles ${input} to ${doubled}`)
+    }),
+  )
+
+  it.effect.each([['a'], ['b']] as const)('writes %s to its own TestConsole', ([line]) =>
+    Effect.gen(function* () {
+      yield* Console.log(line)
+      expect(yield* TestConsole.logLines).toEqual([line])
+    }),
+  )
+
+  it.effect.each([1_000, 60_000])('runs on the TestClock (%i ms)', (millis) =>
+    Effect.gen(function* () {
+      const sleeper = yield* Effect.forkChild(Effect.sleep(millis))
+      yield* TestClock.adjust(millis)
+      yield* Fiber.join(sleeper)
+      expect(yield* Clock.currentTimeMillis).toBe(millis)
+    }),
+  )
+})
+
+it.layer(Layer.sync(Counter)(() => ({ runs: 0 })))('it.effect.each in a layer suite', (it) => {
+  it.effect.each([1, 2, 3])('case %i sees the layer', (n) =>
+    Effect.gen(function* () {
+      const counter = yield* Counter
+      counter.runs++
+      expect(counter.runs).toBe(n)
+    }),
+  )
+})
@@ -9,20 +9,41 @@
  * `@vitest/runner`). This module re-implements the small slice of the
  * `@effect/vitest` ergonomics we want, on vitest's public API.
  */
-import { Effect, Equal, Layer, ManagedRuntime, type Scope } from 'effect'
+import { Cause, Effect, Equal, Exit, Layer, ManagedRuntime, Schema, type Scope } from 'effect'
 import { FastCheck, TestClock, TestConsole } from 'effect/testing'
 import * as Vitest from 'vite-plus/test'
+import * as TestLogger from './logger.js'
+import * as TestTracer from './tracer.js'
 
 // Re-export the full vitest surface (describe, expect, vi, beforeAll, …). The
 // explicit `it` export below shadows the star-exported one.
 export * from 'vite-plus/test'
 
+// Effect-aware matchers (`toSucceedWith`, `toBeSome`, `toDecodeTo`, …) and their typings.
+export { addMatchers, type EffectMatchers } from './matchers.js'
+
+// Captured spans and log entries of the running test, queryable from its body.
+export * as TestLogger from './logger.js'
+export * as TestTracer from './tracer.js'
+
 /** Services an `it.effect` body may use without providing them itself. */
-export type TestEnv = TestClock.TestClock | TestConsole.TestConsole | Scope.Scope
+export type TestEnv =
+  | TestClock.TestClock
+  | TestConsole.TestConsole
+  | TestTracer.TestTracer
+  | TestLogger.TestLogger
+  | Scope.Scope
+
+/** The span and log capture — built per test, also inside a `layer(...)` suite. */
+const CaptureLayer: Layer.Layer<TestTracer.TestTracer | TestLogger.TestLogger> = Layer.mergeAll(
+  TestTracer.layer,
+  TestLogger.layer,
+)
 
-const TestEnvLayer: Layer.Layer<TestClock.TestClock | TestConsole.TestConsole> = Layer.mergeAll(
+const TestEnvLayer: Layer.Layer<Exclude<TestEnv, Scope.Scope>> = Layer.mergeAll(
   TestClock.layer(),
   TestConsole.layer,
+  CaptureLayer,
 )
 
 const runTest = <A, E>(effect: Effect.Effect<A, E, TestEnv>): Promise<A> =>
@@ -38,52 +59,303 @@ type ArbsValues<Arbs extends ReadonlyArray<FastCheck.Arbitrary<unknown>>> = {
   [K in keyof Arbs]: Arbs[K] extends FastCheck.Arbitrary<infer T> ? T : never
 }
 
+/**
+ * Register one Effect test per case. The name is a vitest template — `$field`
+ * (or `$field.nested`) interpolates from an object case, `%s`/`%i`/`%#` from the
+ * case and its index — and the body receives the case plus the test context.
+ */
+export type EffectEach<R> = <T>(
+  cases: ReadonlyArray<T>,
+) => <A, E>(
+  name: string,
+  body: (testCase: T, ctx: Vitest.TestContext) => Effect.Effect<A, E, R>,
+  timeout?: number,
+) => void
+
+/** `it.effect`: a single Effect test, with {@link EffectEach | `.each`} for tables of cases. */
+export type EffectTest<R> = (<A, E>(
+  name: string,
+  body: EffectBody<A, E, R>,
+  timeout?: number,
+) => void) & {
+  readonly each: EffectEach<R>
+}
+
+/** An {@link EffectTest} whose bodies are run by `run` — the standalone or a layer's runtime. */
+const effectTest = <R>(run: <A, E>(effect: Effect.Effect<A, E, R>) => Promise<A>): EffectTest<R> =>
+  Object.assign(
+    <A, E>(name: string, body: EffectBody<A, E, R>, timeout?: number) =>
+      Vitest.it(name, (ctx) => run(body(ctx)), timeout),
+    {
+      each:
+        <T>(cases: ReadonlyArray<T>) =>
+        <A, E>(
+          name: string,
+          body: (testCase: T, ctx: Vitest.TestContext) => Effect.Effect<A, E, R>,
+          timeout?: number,
+        ) =>
+          Vitest.it.for(cases)(
+            name,
+            timeout === undefined ? {} : { timeout },
+            async (testCase, ctx) => {
+              await run(body(testCase, ctx))
+            },
+          ),
+    },
+  )
+
+/** Options for `it.prop`. A bare number is the timeout. */
+export interface PropOptions<Ts> {
+  /** fast-check run parameters (`numRuns`, `seed`, `path`, `endOnFailure`, `examples`, …), over the suite's. */
+  readonly parameters?: FastCheck.Parameters<Ts> | undefined
+  readonly timeout?: number | undefined
+  /**
+   * Expect the property to fail: the test passes only if it does. A function also
+   * receives the failure report, to assert on.
+   */
+  readonly fails?: Fails | undefined
+}
+
+/** A property test's `fails` option: expect a failure and, given a function, check its report. */
+export type Fails = boolean | ((report: string) => void)
+
+/** `it.prop`: a property test whose body returns an Effect, run once per generated case. */
+export type PropTest<R> = <const Arbs extends ReadonlyArray<FastCheck.Arbitrary<unknown>>, A, E>(
+  name: string,
+  arbitraries: Arbs,
+  body: (args: ArbsValues<Arbs>) => Effect.Effect<A, E, R>,
+  options?: number | PropOptions<ArbsValues<Arbs>>,
+) => void
+
+/**
+ * The run to replay when `KITZ_PROP_TEST` names `test` (its full name, suites
+ * included): `KITZ_PROP_SEED`, and `KITZ_PROP_PATH` to jump straight to the shrunk
+ * counterexample — all three printed by a failing property's report. Every other
+ * property runs as configured.
+ */
+const replayParameters = (test: string): Pick<FastCheck.Parameters, 'seed' | 'path'> => {
+  const { KITZ_PROP_TEST: target, KITZ_PROP_SEED: seed, KITZ_PROP_PATH: path } = process.env
+  if (target !== test || !seed) return {}
+  return { seed: Number(seed), ...(path ? { path } : {}) }
+}
+
+/** Single-quote `text` for a POSIX shell. */
+const shellQuote = (text: string): string => `'${text.replaceAll("'", "'\\''")}'`
+
+/** Thrown from a property whose Effect failed, so the report can render the `Cause`. */
+class EffectFailure extends Error {
+  readonly effectCause: Cause.Cause<unknown>
+  constructor(effectCause: Cause.Cause<unknown>) {
+    super('The property Effect failed')
+    this.effectCause = effectCause
+  }
+}
+
+/** fast-check's report for a failed run of `test`, plus how to replay it and the rendered `Cause`. */
+const propertyFailure = <Ts>(test: string, details: FastCheck.RunDetails<Ts>): Error => {
+  const sections = [FastCheck.defaultReportMessage(details) ?? 'Property failed']
+  if (details.counterexamplePath !== null) {
+    sections.push(
+      `Replay with: KITZ_PROP_TEST=${shellQuote(test)} KITZ_PROP_SEED=${details.seed} KITZ_PROP_PATH=${details.counterexamplePath}`,
+    )
+  }
+  if (details.errorInstance instanceof EffectFailure) {
+    sections.push(`Cause:\n${Cause.pretty(details.errorInstance.effectCause)}`)
+  }
+  return new Error(sections.join('\n\n'))
+}
+
+/** Run `check`, inverted when the test `fails`: it must then throw, and `fails` gets the report. */
+const settle = async (
+  check: () => Promise<void> | void,
+  fails: Fails | undefined,
+): Promise<void> => {
+  if (!fails) return check()
+  const report = await Promise.resolve()
+    .then(check)
+    .then(
+      () => undefined,
+      (error: unknown) => (error instanceof Error ? error.message : String(error)),
+    )
+  if (report === undefined) throw new Error('Expected the property to fail, but it held')
+  if (typeof fails === 'function') fails(report)
+}
+
+/** A {@link PropTest} whose cases are run by `run`, with `suite` as default parameters. */
+const propTest =
+  <R>(
+    run: <A, E>(effect: Effect.Effect<A, E, R>) => Promise<A>,
+    suite?: FastCheck.GlobalParameters,
+  ): PropTest<R> =>
+  (name, arbitraries, body, options) => {
+    const { parameters, timeout, fails } =
+      typeof options === 'number' ? { timeout: options } : { ...options }
+    Vitest.it(
+      name,
+      (ctx) =>
+        settle(async () => {
+          const test = ctx.task.fullTestName ?? name
+          // fast-check's arbitrary arities are overloaded; the public signature
+          // above stays typed via ArbsValues, so the variadic plumbing is cast.
+          const fc = FastCheck as unknown as {
+            check: (p: unknown, parameters: unknown) => Promise<FastCheck.RunDetails<unknown>>
+            asyncProperty: (...a: unknown[]) => unknown
+          }
+          const details = await fc.check(
+            fc.asyncProperty(...arbitraries, async (...args: unknown[]) => {
+              const exit = await run(Effect.exit(body(args as ArbsValues<typeof arbitraries>)))
+              if (Exit.isFailure(exit)) throw new EffectFailure(exit.cause)
+            }),
+            { ...suite, ...replayParameters(test), ...parameters },
+          )
+          if (details.failed) throw propertyFailure(test, details)
+        }, fails),
+      timeout,
+    )
+  }
+
+/** Options for {@link effectHelpers.schema}. */
+export interface SchemaLawOptions<T, E> {
+  /**
+   * Values to check `decode ∘ encode` on. Derived from the schema by default —
+   * pass one where derivation can't work (transformations such as
+   * `SchemaGetter.transformOrFail`, declared types).
+   */
+  readonly arbitrary?: FastCheck.Arbitrary<T> | undefined
+  /** Canonical encoded inputs for `encode ∘ decode`. Defaults to encoding {@link arbitrary}'s values. */
+  readonly encoded?: FastCheck.Arbitrary<E> | undefined
+  /**
+   * Raw inputs, possibly non-canonical, for idempotence: normalizing
+   * (`encode ∘ decode`) twice equals normalizing once. Inputs that fail to
+   * decode are skipped. Defaults to {@link encoded}.
+   */
+  readonly inputs?: FastCheck.Arbitrary<unknown> | undefined
+  /** fast-check run parameters (`numRuns`, `seed`, …). */
+  readonly parameters?: FastCheck.Parameters<[unknown]> | undefined
+  readonly timeout?: number | undefined
+  /** Expect every law to fail; a function receives each law's report and its title. */
+  readonly fails?: boolean | ((report: string, law: string) => void) | undefined
+}
+
+/** The value arbitrary for a schema's laws: the given one, else derived (with a hint on failure). */
+const arbitraryFor = <T, E>(
+  name: string,
+  schema: Schema.Codec<T, E>,
+  arbitrary: FastCheck.Arbitrary<T> | undefined,
+): FastCheck.Arbitrary<T> => {
+  if (arbitrary) return arbitrary
+  try {
+    return Schema.toArbitrary(schema)
+  } catch (error) {
+    throw new Error(
+      `Cannot derive an arbitrary for ${name}; pass one with the \`arbitrary\` option`,
+      { cause: error },
+    )
+  }
+}
+
 const effectHelpers = {
-  /** Run an Effect as a test, with a virtual TestClock + captured TestConsole and a Scope. */
-  effect: <A, E>(name: string, body: EffectBody<A, E, TestEnv>, timeout?: number) =>
-    Vitest.it(name, (ctx) => runTest(body(ctx)), timeout),
+  /**
+   * Run an Effect as a test, with a virtual TestClock, captured TestConsole, spans
+   * (`TestTracer.spans`) and logs (`TestLogger.logs`), and a Scope.
+   * `it.effect.each(cases)(name, body)` runs one such test per case.
+   *
+   * @example
+   * ```ts
+   * it.effect.each([
+   *   { input: './a/', expected: 'RelDir' },
+   *   { input: '/a.md', expected: 'AbsFile' },
+   * ])('$input is $expected', ({ input, expected }) =>
+   *   Effect.sync(() => expect(analyze(input)._tag).toBe(expected)))
+   * ```
+   */
+  effect: effectTest<TestEnv>(runTest),
   /** Like {@link effect} but with the live environment (real Clock/Console). */
   live: <A, E>(name: string, body: EffectBody<A, E, Scope.Scope>, timeout?: number) =>
     Vitest.it(name, (ctx) => runLive(body(ctx)), timeout),
   /** Alias of {@link effect} emphasizing that the body may acquire scoped resources. */
   scoped: <A, E>(name: string, body: EffectBody<A, E, TestEnv>, timeout?: number) =>
     Vitest.it(name, (ctx) => runTest(body(ctx)), timeout),
-  /** Property test whose body returns an Effect. Each generated case runs as an Effect. */
-  prop: <const Arbs extends ReadonlyArray<FastCheck.Arbitrary<unknown>>, A, E>(
-    name: string,
-    arbitraries: Arbs,
-    body: (args: ArbsValues<Arbs>) => Effect.Effect<A, E, TestEnv>,
-    timeout?: number,
-  ) =>
-    Vitest.it(
-      name,
-      async () => {
-        // fast-check's arbitrary arities are overloaded; the public signature
-        // above stays typed via ArbsValues, so the variadic plumbing is cast.
-        const fc = FastCheck as unknown as {
-          assert: (p: unknown) => Promise<void>
-          asyncProperty: (...a: unknown[]) => unknown
-        }
-        await fc.assert(
-          fc.asyncProperty(...arbitraries, (...args: unknown[]) =>
-            runTest(body(args as ArbsValues<Arbs>)),
-          ),
+  /**
+   * Property test whose body returns an Effect. Each generated case runs as an Effect.
+   * A failure reports the shrunk counterexample, the rendered `Cause`, and the
+   * `KITZ_PROP_TEST`/`KITZ_PROP_SEED`/`KITZ_PROP_PATH` that replay it — for that
+   * test only, and under any parameters the test sets itself.
+   *
+   * @example
+   * ```ts
+   * it.prop('round-trips', [Path.Arbitrary.relFile], ([file]) => roundTrip(file), {
+   *   parameters: { numRuns: 500, endOnFailure: true },
+   * })
+   * ```
+   */
+  prop: propTest<TestEnv>(runTest),
+  /**
+   * Codec round-trip laws as a suite of property tests: `decode ∘ encode` is the
+   * identity on values, `encode ∘ decode` on canonical encoded inputs, and
+   * normalizing is idempotent. Failures report fast-check's shrunk counterexample.
+   *
+   * @example
+   * ```ts
+   * it.schema('User', User)
+   * it.schema('AbsDir', Path.AbsDir, { arbitrary: Path.Arbitrary.absDir })
+   * ```
+   */
+  schema: <T, E>(name: string, schema: Schema.Codec<T, E>, options?: SchemaLawOptions<T, E>) =>
+    Vitest.describe(name, () => {
+      const decode = Schema.decodeUnknownSync(schema)
+      const encode = Schema.encodeSync(schema)
+      const values = () => arbitraryFor(name, schema, options?.arbitrary)
+      const encoded = () => options?.encoded ?? values().map(encode)
+      const law = <A>(
+        title: string,
+        arbitrary: () => FastCheck.Arbitrary<A>,
+        holds: (input: A) => void,
+      ) =>
+        Vitest.it(
+          title,
+          (ctx) => {
+            const fails = options?.fails
+            return settle(
+              () => {
+                const test = ctx.task.fullTestName ?? title
+                const details = FastCheck.check(
+                  // Laws return nothing: fast-check reads a non-`undefined` return as a verdict.
+                  FastCheck.property(arbitrary(), (input) => {
+                    holds(input)
+                  }),
+                  { ...replayParameters(test), ...options?.parameters },
+                )
+                if (details.failed) throw propertyFailure(test, details)
+              },
+              typeof fails === 'function' ? (report) => fails(report, title) : fails,
+            )
+          },
+          options?.timeout,
         )
-      },
-      timeout,
-    ),
+
+      law('decode ∘ encode', values, (value) => Vitest.expect(decode(encode(value))).toEqual(value))
+      law('encode ∘ decode', encoded, (input) =>
+        Vitest.expect(encode(decode(input))).toEqual(input),
+      )
+      law(
+        'idempotent',
+        () => options?.inputs ?? encoded(),
+        (input) => {
+          const decoded = Schema.decodeUnknownOption(schema)(input)
+          FastCheck.pre(decoded._tag === 'Some')
+          const once = encode(decoded.value)
+          Vitest.expect(encode(decode(once))).toEqual(once)
+        },
+      )
+    }),
 }
 
 /** Effect-native test methods bound to a provided layer (no `.live` — the layer is the env). */
 export interface ScopedMethods<R> {
-  effect: <A, E>(name: string, body: EffectBody<A, E, R | TestEnv>, timeout?: number) => void
+  effect: EffectTest<R | TestEnv>
   scoped: <A, E>(name: string, body: EffectBody<A, E, R | TestEnv>, timeout?: number) => void
-  prop: <const Arbs extends ReadonlyArray<FastCheck.Arbitrary<unknown>>, A, E>(
-    name: string,
-    arbitraries: Arbs,
-    body: (args: ArbsValues<Arbs>) => Effect.Effect<A, E, R | TestEnv>,
-    timeout?: number,
-  ) => void
+  prop: PropTest<R | TestEnv>
 }
 
 /** A layer-bound test suite: call with an optional name + a body that receives scoped `it` methods. */
@@ -96,7 +368,8 @@ export interface LayerSuite<R> {
  * Provide a `Layer` to a group of Effect tests. The layer is built ONCE
  * (memoized via a `ManagedRuntime`), shared across every test in the group, and
  * disposed in `afterAll`. The bound `it` inside the suite runs each body with the
- * layer's services plus a TestClock/TestConsole/Scope.
+ * layer's services plus a TestClock/TestConsole/Scope, and its own span and log
+ * capture.
  *
  * @example
  * ```ts
@@ -112,7 +385,11 @@ export interface LayerSuite<R> {
 export const layer =
   <R, E>(
     layer_: Layer.Layer<R, E, never>,
-    options?: { readonly timeout?: number },
+    options?: {
+      readonly timeout?: number
+      /** Default fast-check parameters for the suite's `it.prop` tests. */
+      readonly parameters?: FastCheck.GlobalParameters
+    },
   ): LayerSuite<R> =>
   (...args: [string, (it: ScopedMethods<R>) => void] | [(it: ScopedMethods<R>) => void]) => {
     const hasName = typeof args[0] === 'string'
@@ -120,28 +397,14 @@ export const layer =
     const f = (hasName ? args[1] : args[0]) as (it: ScopedMethods<R>) => void
 
     const runtime = ManagedRuntime.make(Layer.merge(layer_, TestEnvLayer))
+    // The runtime's capture is shared by the suite; each test records into its own.
     const runScoped = <A, E2>(effect: Effect.Effect<A, E2, R | TestEnv>): Promise<A> =>
-      runtime.runPromise(Effect.scoped(effect))
+      runtime.runPromise(Effect.scoped(Effect.provide(effect, Layer.fresh(CaptureLayer))))
 
     const boundIt: ScopedMethods<R> = {
-      effect: (n, body, t) => Vitest.it(n, (ctx) => runScoped(body(ctx)), t),
+      effect: effectTest(runScoped),
       scoped: (n, body, t) => Vitest.it(n, (ctx) => runScoped(body(ctx)), t),
-      prop: (n, arbitraries, body, t) =>
-        Vitest.it(
-          n,
-          async () => {
-            const fc = FastCheck as unknown as {
-              assert: (p: unknown) => Promise<void>
-              asyncProperty: (...a: unknown[]) => unknown
-            }
-            await fc.assert(
-              fc.asyncProperty(...arbitraries, (...as_: unknown[]) =>
-                runScoped(body(as_ as ArbsValues<typeof arbitraries>)),
-              ),
-            )
-          },
-          t,
-        ),
+      prop: propTest(runScoped, options?.parameters),
     }
 
     const register = () => {
@@ -154,15 +417,18 @@ export const layer =
 
 /**
  * vitest's `it`, extended with Effect-native variants (`it.effect`, `it.live`,
- * `it.scoped`, `it.prop`, `it.layer`). Composed as a NEW object — vite-plus's
- * exported `it` is never mutated.
+ * `it.scoped`, `it.prop`, `it.layer`) and codec laws (`it.schema`). Composed as a
+ * NEW object — vite-plus's exported `it` is never mutated. It is the prototype
+ * instead of a copy: its chain methods (`each`, `for`, `skip`, …) read the chain's
+ * context from a non-enumerable property that copying would drop.
  */
-export const it: typeof Vitest.it & typeof effectHelpers & { layer: typeof layer } = Object.assign(
-  ((...args: Parameters<typeof Vitest.it>) => Vitest.it(...args)) as typeof Vitest.it,
-  Vitest.it,
-  effectHelpers,
-  { layer },
-)
+export const it: typeof Vitest.it & typeof effectHelpers & { layer: typeof layer } =
+  Object.setPrototypeOf(
+    Object.assign((...args: Parameters<typeof Vitest.it>) => Vitest.it(...args), effectHelpers, {
+      layer,
+    }),
+    Vitest.it,
+  )
 
 /**
  * Register an Effect-`Equal`-aware equality tester on `expect`, so
@@ -0,0 +1,65 @@
+import { Context, Effect, Layer } from 'effect'
+import { describe, expect, it, TestLogger } from './index.js'
+
+describe('TestLogger.logs', () => {
+  it.effect('captures entries with their level, message and annotations', () =>
+    Effect.gen(function* () {
+      yield* Effect.log('hello', { n: 1 })
+      yield* Effect.logWarning('retrying').pipe(Effect.annotateLogs('attempt', 2))
+      const [hello, retrying] = yield* TestLogger.logs()
+      expect(hello).toMatchObject({ level: 'Info', message: ['hello', { n: 1 }], annotations: {} })
+      expect(TestLogger.text(hello!)).toBe('hello {"n":1}')
+      expect(retrying).toMatchObject({ level: 'Warn', annotations: { attempt: 2 } })
+    }),
+  )
+
+  it.effect('starts empty for every test', () =>
+    Effect.gen(function* () {
+      expect(yield* TestLogger.logs()).toEqual([])
+    }),
+  )
+
+  it.effect('queries by level, annotations and message', () =>
+    Effect.gen(function* () {
+      yield* Effect.logInfo('cache miss').pipe(Effect.annotateLogs({ key: 'a' }))
+      yield* Effect.logInfo('cache hit').pipe(Effect.annotateLogs({ key: 'b' }))
+      yield* Effect.logError('disk full')
+      expect(yield* TestLogger.logs({ level: 'Error' })).toHaveLength(1)
+      expect(yield* TestLogger.logs({ annotations: { key: 'b' } })).toHaveLength(1)
+      expect(yield* TestLogger.logs({ message: 'cache' })).toHaveLength(2)
+      expect(yield* TestLogger.logs({ message: /^cache (hit|miss)$/, level: 'Info' })).toHaveLength(
+        2,
+      )
+      expect(yield* TestLogger.logs({ level: 'Info', annotations: { key: 'c' } })).toEqual([])
+    }),
+  )
+
+  it.effect('skips entries below the minimum log level', () =>
+    Effect.gen(function* () {
+      yield* Effect.logDebug('noise')
+      expect(yield* TestLogger.logs()).toEqual([])
+    }),
+  )
+})
+
+class Greeter extends Context.Service<Greeter, { readonly greet: Effect.Effect<void> }>()(
+  'Greeter',
+) {}
+
+it.layer(Layer.succeed(Greeter)({ greet: Effect.log('hi') }))(
+  'TestLogger in a layer suite',
+  (it) => {
+    it.effect('captures the logs of the layer’s services', () =>
+      Effect.gen(function* () {
+        yield* Greeter.use((greeter) => greeter.greet)
+        expect(yield* TestLogger.logs({ message: 'hi' })).toHaveLength(1)
+      }),
+    )
+
+    it.effect('keeps each test’s logs apart', () =>
+      Effect.gen(function* () {
+        expect(yield* TestLogger.logs()).toEqual([])
+      }),
+    )
+  },
+)
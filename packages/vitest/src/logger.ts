@@ -0,0 +1,89 @@
+import {
+  type Cause,
+  Context,
+  Effect,
+  Equal,
+  Layer,
+  Logger,
+  type LogLevel,
+  References,
+} from 'effect'
+
+/** One captured log call. */
+export interface Entry {
+  readonly level: LogLevel.LogLevel
+  /** The arguments passed to `Effect.log` (and friends). */
+  readonly message: ReadonlyArray<unknown>
+  readonly annotations: Readonly<Record<string, unknown>>
+  readonly cause: Cause.Cause<unknown>
+  readonly date: Date
+}
+
+/** The log entries a test has written, in order — provided by {@link layer}. */
+export class TestLogger extends Context.Service<
+  TestLogger,
+  { readonly entries: ReadonlyArray<Entry> }
+>()('@kitz/vitest/TestLogger') {}
+
+/** What {@link logs} filters on; every given field must hold. */
+export interface Query {
+  readonly level?: LogLevel.LogLevel | undefined
+  /** Annotations the entry carries, compared with `Equal`. */
+  readonly annotations?: Readonly<Record<string, unknown>> | undefined
+  /** Text the message contains, or a pattern it matches — the arguments joined by spaces. */
+  readonly message?: string | RegExp | undefined
+}
+
+/** An entry's message as one line of text. */
+export const text = (entry: Entry): string =>
+  entry.message.map((part) => (typeof part === 'string' ? part : JSON.stringify(part))).join(' ')
+
+/** Whether `entry` satisfies every field of `query`. */
+export const matches = (entry: Entry, query: Query): boolean =>
+  (query.level === undefined || entry.level === query.level) &&
+  (query.annotations === undefined ||
+    Object.entries(query.annotations).every(
+      ([key, value]) => key in entry.annotations && Equal.equals(entry.annotations[key], value),
+    )) &&
+  (query.message === undefined ||
+    (typeof query.message === 'string'
+      ? text(entry).includes(query.message)
+      : query.message.test(text(entry))))
+
+/**
+ * Capture every log entry that passes the minimum log level, alongside the
+ * existing loggers. Part of the test environment of `it.effect` and `layer(...)`
+ * suites, fresh for each test.
+ */
+export const layer: Layer.Layer<TestLogger> = Layer.unwrap(
+  Effect.sync(() => {
+    const entries: Entry[] = []
+    const logger = Logger.make<unknown, void>((options) => {
+      entries.push({
+        level: options.logLevel,
+        message: Array.isArray(options.message) ? options.message : [options.message],
+        annotations: options.fiber.getRef(References.CurrentLogAnnotations),
+        cause: options.cause,
+        date: options.date,
+      })
+    })
+    return Layer.merge(
+      Layer.succeed(TestLogger)({ entries }),
+      Logger.layer([logger], { mergeWithExisting: true }),
+    )
+  }),
+)
+
+/**
+ * The captured entries matching `query` — all of them when omitted.
+ *
+ * @example
+ * ```ts
+ * yield* Effect.logWarning('retrying').pipe(Effect.annotateLogs('attempt', 2))
+ * expect(yield* TestLogger.logs({ level: 'Warn', annotations: { attempt: 2 } })).toHaveLength(1)
+ * ```
+ */
+export const logs = (query?: Query): Effect.Effect<ReadonlyArray<Entry>, never, TestLogger> =>
+  TestLogger.useSync(({ entries }) =>
+    query ? entries.filter((entry) => matches(entry, query)) : entries,
+  )
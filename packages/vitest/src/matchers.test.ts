@@ -0,0 +1,82 @@
+import { Data, Effect, Exit, Option, Result, Schema } from 'effect'
+import { describe, expect, it } from './index.js'
+
+class NotFound extends Data.TaggedError('NotFound')<{ readonly id: string }> {}
+
+class Point extends Data.Class<{ readonly x: number; readonly y: number }> {}
+
+describe('toSucceedWith', () => {
+  it('accepts an Exit or a Result holding an equal value', () => {
+    expect(Exit.succeed(new Point({ x: 1, y: 2 }))).toSucceedWith(new Point({ x: 1, y: 2 }))
+    expect(Result.succeed([1, 2])).toSucceedWith([1, 2])
+    expect(Exit.succeed(1)).not.toSucceedWith(2)
+    expect(Exit.fail('x')).not.toSucceedWith('x')
+  })
+
+  it('prints the failure Cause', () => {
+    expect(() => expect(Exit.fail(new NotFound({ id: 'a' }))).toSucceedWith(1)).toThrow(
+      /expected Failure:\n.*NotFound/,
+    )
+  })
+
+  it('rejects anything but an Exit or a Result', () => {
+    expect(() => expect(1).toSucceedWith(1)).toThrow('toSucceedWith expects an Exit or a Result')
+  })
+})
+
+describe('toFailWithTag', () => {
+  it('matches the tag of the failure', async () => {
+    expect(await Effect.runPromiseExit(Effect.fail(new NotFound({ id: 'a' })))).toFailWithTag(
+      'NotFound',
+    )
+    expect(Result.fail(new NotFound({ id: 'a' }))).toFailWithTag('NotFound')
+    expect(Exit.fail(new NotFound({ id: 'a' }))).not.toFailWithTag('Other')
+    expect(Exit.succeed(1)).not.toFailWithTag('NotFound')
+  })
+
+  it('ignores defects', () => {
+    expect(Exit.die(new NotFound({ id: 'a' }))).not.toFailWithTag('NotFound')
+  })
+})
+
+describe('toDie', () => {
+  it('passes only for defects', () => {
+    expect(Exit.die('boom')).toDie()
+    expect(Exit.fail('boom')).not.toDie()
+    expect(Exit.succeed(1)).not.toDie()
+  })
+})
+
+describe('toBeSome / toBeNone', () => {
+  it('checks presence, and the value when given', () => {
+    expect(Option.some(new Point({ x: 0, y: 0 }))).toBeSome()
+    expect(Option.some(new Point({ x: 0, y: 0 }))).toBeSome(new Point({ x: 0, y: 0 }))
+    expect(Option.some(1)).not.toBeSome(2)
+    expect(Option.none()).not.toBeSome()
+    expect(Option.none()).toBeNone()
+    expect(Option.some(undefined)).not.toBeNone()
+  })
+
+  it('rejects anything but an Option', () => {
+    expect(() => expect(null).toBeNone()).toThrow('toBeNone expects an Option')
+  })
+})
+
+describe('toDecodeTo / toFailDecoding', () => {
+  it('decodes with the schema', () => {
+    expect('1.5').toDecodeTo(Schema.NumberFromString, 1.5)
+    expect('1.5').not.toDecodeTo(Schema.NumberFromString, 2)
+  })
+
+  it('prints the issue when decoding fails', () => {
+    expect(() => expect(1).toDecodeTo(Schema.NumberFromString, 1)).toThrow(/but decoding failed:\n/)
+  })
+
+  it('matches the failure message by substring or pattern', () => {
+    expect(1).toFailDecoding(Schema.String)
+    expect(1).toFailDecoding(Schema.String, 'Expected string')
+    expect(1).toFailDecoding(Schema.String, /expected string, got 1/i)
+    expect(1).not.toFailDecoding(Schema.String, 'Expected number')
+    expect('a').not.toFailDecoding(Schema.String)
+  })
+})
@@ -0,0 +1,167 @@
+import {
+  Cause,
+  Exit,
+  Option,
+  Predicate,
+  Result,
+  type Schema,
+  SchemaIssue,
+  SchemaParser,
+} from 'effect'
+import * as Vitest from 'vite-plus/test'
+
+/** What {@link toSucceedWith}/{@link toFailWithTag} accept: an `Exit` or a `Result`. */
+type Outcome = Exit.Exit<unknown, unknown> | Result.Result<unknown, unknown>
+
+/** Effect-aware matchers, registered on `expect` by {@link addMatchers}. */
+export interface EffectMatchers<R = unknown> {
+  /** The `Exit`/`Result` succeeded with a value `Equal` to `expected`. */
+  toSucceedWith: (expected: unknown) => R
+  /** The `Exit`/`Result` failed with an error whose `_tag` is `tag`. */
+  toFailWithTag: (tag: string) => R
+  /** The `Exit` failed with a defect. */
+  toDie: () => R
+  /** The `Option` is `Some` — holding a value `Equal` to `expected`, when given. */
+  toBeSome: (expected?: unknown) => R
+  /** The `Option` is `None`. */
+  toBeNone: () => R
+  /** The received input decodes with `schema` to a value `Equal` to `expected`. */
+  toDecodeTo: (schema: Schema.Decoder<unknown>, expected: unknown) => R
+  /** The received input fails to decode with `schema` — with a message matching `message`, when given. */
+  toFailDecoding: (schema: Schema.Decoder<unknown>, message?: string | RegExp) => R
+}
+
+declare module 'vite-plus/test' {
+  interface Matchers<T = any> extends EffectMatchers<T> {}
+}
+
+const formatIssue = SchemaIssue.makeFormatterDefault()
+
+/** An outcome as `Exit`, so both kinds share one code path. */
+const toExit = (outcome: Outcome): Exit.Exit<unknown, unknown> =>
+  Exit.isExit(outcome)
+    ? outcome
+    : Result.match(outcome, { onSuccess: Exit.succeed, onFailure: Exit.fail })
+
+const describeExit = (exit: Exit.Exit<unknown, unknown>, print: (value: unknown) => string) =>
+  Exit.match(exit, {
+    onSuccess: (value) => `Success(${print(value)})`,
+    onFailure: (cause) => `Failure:\n${Cause.pretty(cause)}`,
+  })
+
+const tagOf = (error: unknown): unknown =>
+  Predicate.hasProperty(error, '_tag') ? error._tag : undefined
+
+const isOutcome = (received: unknown): received is Outcome =>
+  Exit.isExit(received) || Result.isResult(received)
+
+const matchesMessage = (text: string, message: string | RegExp): boolean =>
+  typeof message === 'string' ? text.includes(message) : message.test(text)
+
+const matchers: Parameters<typeof Vitest.expect.extend>[0] = {
+  toSucceedWith(received: unknown, expected: unknown) {
+    if (!isOutcome(received)) throw new TypeError('toSucceedWith expects an Exit or a Result')
+    const exit = toExit(received)
+    const pass = Exit.isSuccess(exit) && this.equals(exit.value, expected, this.customTesters)
+    return {
+      pass,
+      message: () =>
+        `expected ${describeExit(exit, this.utils.printReceived)} ${this.isNot ? 'not ' : ''}to succeed with ${this.utils.printExpected(expected)}`,
+      ...(Exit.isSuccess(exit) ? { actual: exit.value, expected } : {}),
+    }
+  },
+
+  toFailWithTag(received: unknown, tag: string) {
+    if (!isOutcome(received)) throw new TypeError('toFailWithTag expects an Exit or a Result')
+    const exit = toExit(received)
+    const error = Exit.isFailure(exit)
+      ? Result.getOrUndefined(Cause.findError(exit.cause))
+      : undefined
+    const pass = tagOf(error) === tag
+    return {
+      pass,
+      message: () =>
+        `expected ${describeExit(exit, this.utils.printReceived)} ${this.isNot ? 'not ' : ''}to fail with tag ${this.utils.printExpected(tag)}`,
+    }
+  },
+
+  toDie(received: unknown) {
+    if (!Exit.isExit(received)) throw new TypeError('toDie expects an Exit')
+    const pass = Exit.isFailure(received) && Cause.hasDies(received.cause)
+    return {
+      pass,
+      message: () =>
+        `expected ${describeExit(received, this.utils.printReceived)} ${this.isNot ? 'not ' : ''}to die`,
+    }
+  },
+
+  toBeSome(received: unknown, ...args: [expected?: unknown]) {
+    if (!Option.isOption(received)) throw new TypeError('toBeSome expects an Option')
+    const pass =
+      Option.isSome(received) &&
+      (args.length === 0 || this.equals(received.value, args[0], this.customTesters))
+    return {
+      pass,
+      message: () =>
+        `expected ${this.utils.printReceived(received)} ${this.isNot ? 'not ' : ''}to be Some${
+          args.length === 0 ? '' : `(${this.utils.printExpected(args[0])})`
+        }`,
+    }
+  },
+
+  toBeNone(received: unknown) {
+    if (!Option.isOption(received)) throw new TypeError('toBeNone expects an Option')
+    return {
+      pass: Option.isNone(received),
+      message: () =>
+        `expected ${this.utils.printReceived(received)} ${this.isNot ? 'not ' : ''}to be None`,
+    }
+  },
+
+  toDecodeTo(received: unknown, schema: Schema.Decoder<unknown>, expected: unknown) {
+    const decoded = SchemaParser.decodeUnknownResult(schema)(received)
+    const pass =
+      Result.isSuccess(decoded) && this.equals(decoded.success, expected, this.customTesters)
+    return {
+      pass,
+      message: () =>
+        Result.match(decoded, {
+          onSuccess: (value) =>
+            `expected ${this.utils.printReceived(received)} ${this.isNot ? 'not ' : ''}to decode to ${this.utils.printExpected(expected)}, decoded to ${this.utils.printReceived(value)}`,
+          onFailure: (issue) =>
+            `expected ${this.utils.printReceived(received)} to decode to ${this.utils.printExpected(expected)}, but decoding failed:\n${formatIssue(issue)}`,
+        }),
+      ...(Result.isSuccess(decoded) ? { actual: decoded.success, expected } : {}),
+    }
+  },
+
+  toFailDecoding(received: unknown, schema: Schema.Decoder<unknown>, message?: string | RegExp) {
+    const decoded = SchemaParser.decodeUnknownResult(schema)(received)
+    const text = Result.isFailure(decoded) ? formatIssue(decoded.failure) : undefined
+    const pass = text !== undefined && (message === undefined || matchesMessage(text, message))
+    return {
+      pass,
+      message: () =>
+        text === undefined
+          ? `expected ${this.utils.printReceived(received)} to fail decoding, but it decoded to ${this.utils.printReceived(Result.getOrUndefined(decoded))}`
+          : `expected ${this.utils.printReceived(received)} ${this.isNot ? 'not ' : ''}to fail decoding${
+              message === undefined ? '' : ` with ${this.utils.printExpected(message)}`
+            }, issues:\n${text}`,
+    }
+  },
+}
+
+/**
+ * Register the {@link EffectMatchers} on `expect` — done by the `@kitz/vitest/setup`
+ * entry. Values are compared with `Equal` semantics when {@link addEqualityTesters}
+ * is registered too; failures print the `Cause` or `SchemaIssue` tree.
+ *
+ * @example
+ * ```ts
+ * expect(yield* Effect.exit(find(id))).toFailWithTag('NotFound')
+ * expect('/a/b/').toDecodeTo(Path.AbsDir, AbsDir.make({ segments: ['a', 'b'] }))
+ * ```
+ */
+export const addMatchers = (): void => {
+  Vitest.expect.extend(matchers)
+}
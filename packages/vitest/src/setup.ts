@@ -1,6 +1,7 @@
-import { addEqualityTesters } from './index.js'
+import { addEqualityTesters, addMatchers } from './index.js'
 
 // vitest setupFile entrypoint: registers the Effect-`Equal`-aware equality tester
-// on the per-worker `expect`. Referenced from the root vite.config.mts as
-// `setupFiles: ['@kitz/vitest/setup']`.
+// and the Effect-aware matchers on the per-worker `expect`. Referenced from the
+// root vite.config.mts as `setupFiles: ['@kitz/vitest/setup']`.
 addEqualityTesters()
+addMatchers()
@@ -0,0 +1,74 @@
+import { Context, Effect, Layer } from 'effect'
+import { describe, expect, it, TestTracer } from './index.js'
+
+class Boom extends Error {}
+
+const load = (id: number) =>
+  Effect.gen(function* () {
+    yield* Effect.void.pipe(Effect.withSpan('db.query', { attributes: { table: 'users' } }))
+    if (id < 0) return yield* Effect.fail(new Boom())
+    return id
+  }).pipe(Effect.withSpan('load', { attributes: { id } }))
+
+const names = (spans: ReadonlyArray<{ readonly name: string }>) => spans.map((span) => span.name)
+
+describe('TestTracer.spans', () => {
+  it.effect('records spans in start order', () =>
+    Effect.gen(function* () {
+      yield* load(1)
+      expect(names(yield* TestTracer.spans())).toEqual(['load', 'db.query'])
+    }),
+  )
+
+  it.effect('starts empty for every test', () =>
+    Effect.gen(function* () {
+      expect(yield* TestTracer.spans()).toEqual([])
+    }),
+  )
+
+  it.effect('queries by name, parent, attributes and status', () =>
+    Effect.gen(function* () {
+      yield* load(1)
+      yield* Effect.exit(load(-1))
+      expect(yield* TestTracer.spans({ name: 'load' })).toHaveLength(2)
+      expect(names(yield* TestTracer.spans({ name: /^db\./ }))).toEqual(['db.query', 'db.query'])
+      expect(names(yield* TestTracer.spans({ parent: null }))).toEqual(['load', 'load'])
+      expect(yield* TestTracer.spans({ parent: 'load' })).toHaveLength(2)
+      expect(yield* TestTracer.spans({ attributes: { id: -1 } })).toHaveLength(1)
+      expect(yield* TestTracer.spans({ attributes: { id: 2 } })).toEqual([])
+      expect(yield* TestTracer.spans({ name: 'load', status: 'error' })).toHaveLength(1)
+      expect(yield* TestTracer.spans({ status: 'ok' })).toHaveLength(3)
+    }),
+  )
+
+  it.effect('reports spans still open as running', () =>
+    Effect.gen(function* () {
+      const running = yield* TestTracer.spans({ status: 'running' }).pipe(Effect.withSpan('outer'))
+      expect(names(running)).toEqual(['outer'])
+      expect(TestTracer.status((yield* TestTracer.spans())[0]!)).toBe('ok')
+    }),
+  )
+})
+
+class Repo extends Context.Service<
+  Repo,
+  { readonly find: (id: number) => Effect.Effect<number> }
+>()('Repo') {}
+
+it.layer(Layer.succeed(Repo)({ find: (id) => Effect.orDie(load(id)) }))(
+  'TestTracer in a layer suite',
+  (it) => {
+    it.effect('records the spans of the layer’s services', () =>
+      Effect.gen(function* () {
+        yield* Repo.use((repo) => repo.find(7))
+        expect(yield* TestTracer.spans({ name: 'load', attributes: { id: 7 } })).toHaveLength(1)
+      }),
+    )
+
+    it.effect('keeps each test’s spans apart', () =>
+      Effect.gen(function* () {
+        expect(yield* TestTracer.spans()).toEqual([])
+      }),
+    )
+  },
+)
@@ -0,0 +1,78 @@
+import { Context, Effect, Equal, Exit, Layer, Option, Tracer } from 'effect'
+
+/** The spans a test has started, in start order — provided by {@link layer}. */
+export class TestTracer extends Context.Service<
+  TestTracer,
+  { readonly spans: ReadonlyArray<Tracer.Span> }
+>()('@kitz/vitest/TestTracer') {}
+
+/** Where a span is: still open, or ended with a success or a failure. */
+export type Status = 'running' | 'ok' | 'error'
+
+/** What {@link spans} filters on; every given field must hold. */
+export interface Query {
+  /** The span's name, or a pattern it matches. */
+  readonly name?: string | RegExp | undefined
+  /** The parent span's name — `null` for root spans. */
+  readonly parent?: string | null | undefined
+  /** Attributes the span carries, compared with `Equal`. */
+  readonly attributes?: Readonly<Record<string, unknown>> | undefined
+  readonly status?: Status | undefined
+}
+
+/** The {@link Status} of a span. */
+export const status = (span: Tracer.Span): Status =>
+  span.status._tag === 'Started' ? 'running' : Exit.isSuccess(span.status.exit) ? 'ok' : 'error'
+
+/** An external parent has no name; it's known by its span id. */
+const parentName = (span: Tracer.Span): string | null =>
+  Option.match(span.parent, {
+    onNone: () => null,
+    onSome: (parent) => (parent._tag === 'Span' ? parent.name : parent.spanId),
+  })
+
+/** Whether `span` satisfies every field of `query`. */
+export const matches = (span: Tracer.Span, query: Query): boolean =>
+  (query.name === undefined ||
+    (typeof query.name === 'string' ? span.name === query.name : query.name.test(span.name))) &&
+  (query.parent === undefined || parentName(span) === query.parent) &&
+  (query.attributes === undefined ||
+    Object.entries(query.attributes).every(
+      ([key, value]) => span.attributes.has(key) && Equal.equals(span.attributes.get(key), value),
+    )) &&
+  (query.status === undefined || status(span) === query.status)
+
+/**
+ * Record every span started under it, in memory. Part of the test environment of
+ * `it.effect` and `layer(...)` suites, fresh for each test.
+ */
+export const layer: Layer.Layer<TestTracer> = Layer.unwrap(
+  Effect.sync(() => {
+    const recorded: Tracer.Span[] = []
+    const tracer = Tracer.make({
+      span: (options) => {
+        const span = new Tracer.NativeSpan(options)
+        recorded.push(span)
+        return span
+      },
+    })
+    return Layer.merge(
+      Layer.succeed(TestTracer)({ spans: recorded }),
+      Layer.succeed(Tracer.Tracer)(tracer),
+    )
+  }),
+)
+
+/**
+ * The recorded spans matching `query` — all of them when omitted.
+ *
+ * @example
+ * ```ts
+ * yield* load(id).pipe(Effect.withSpan('load', { attributes: { id } }))
+ * expect(yield* TestTracer.spans({ name: 'db.query', parent: 'load', status: 'ok' })).toHaveLength(1)
+ * ```
+ */
+export const spans = (
+  query?: Query,
+): Effect.Effect<ReadonlyArray<Tracer.Span>, never, TestTracer> =>
+  TestTracer.useSync(({ spans }) => (query ? spans.filter((span) => matches(span, query)) : spans))